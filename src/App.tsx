@@ -1,15 +1,18 @@
-import DropDown, {
-  type SearchOptionValue,
-} from "./bank/features/btn-dropdown/DropDown";
+import DropDown from "./bank/features/btn-dropdown/DropDown";
+import { SearchPreferencesProvider } from "./bank/features/search-preferences/SearchPreferencesProvider";
 import AdvancedSearchComponent from "./searchbar/AdvancedSearchComponent";
 import SearchBar from "./bank/features/search-bar/SearchBar";
-import { useState } from "react";
+import {
+  getUserKey,
+  getUserLabel,
+  renderUserResult,
+  userSearchFields,
+  type User,
+} from "./searchbar/entities/user";
 
 const App = () => {
-  const [searchMode, setSearchMode] =
-    useState<SearchOptionValue>("Balanced Mode");
   return (
-    <>
+    <SearchPreferencesProvider userId="demo" urlParam="searchMode">
       <div className="text-center mb-8">
         <h1 className="text-2xl sm:text-3xl font-bold text-gray-800 mb-2">
           Adaptive Search Component (Fixed)
@@ -19,10 +22,18 @@ const App = () => {
         </p>
       </div>
 
-      <DropDown searchMode={searchMode} setSearchMode={setSearchMode} />
-      <SearchBar searchMode={searchMode} />
-      <AdvancedSearchComponent />
-    </>
+      <DropDown />
+      <SearchBar historyKey="demo:bank-search" />
+      <AdvancedSearchComponent<User>
+        getKey={getUserKey}
+        getLabel={getUserLabel}
+        searchFields={userSearchFields}
+        renderResult={renderUserResult}
+        placeholder="Search users by name, email, or company..."
+        persistCache
+        historyKey="demo:users"
+      />
+    </SearchPreferencesProvider>
   );
 };
 
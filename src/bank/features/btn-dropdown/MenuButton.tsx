@@ -0,0 +1,211 @@
+import { useEffect, useId, useRef, useState, type ReactNode } from "react";
+import useClickOutside from "../../hooks/useClickOutside";
+import useFlipPlacement from "../../hooks/useFlipPlacement";
+
+export interface MenuButtonItem<TKey extends string> {
+  key: TKey;
+  /** Also what typeahead matches against. */
+  label: string;
+  description?: ReactNode;
+  icon?: ReactNode;
+}
+
+interface MenuButtonProps<TKey extends string> {
+  items: MenuButtonItem<TKey>[];
+  /** The checked item. */
+  value: TKey;
+  onChange: (key: TKey) => void;
+  /** Button content. Defaults to the checked item's label. */
+  children?: ReactNode;
+  className?: string;
+}
+
+// Keys typed closer together than this (ms) extend the typeahead string.
+const TYPEAHEAD_RESET_MS = 500;
+
+const verticalClasses = { bottom: "top-full mt-1", top: "bottom-full mb-1" };
+const horizontalClasses = { start: "left-0", end: "right-0" };
+
+/**
+ * Single-choice menu behind a button (WAI-ARIA APG menu button): a
+ * `menu` of `menuitemradio`s with roving focus, arrow keys, Home/End and
+ * typeahead. Escape and clicks outside close it; it opens upwards or
+ * leftwards when there's no room below or to the right.
+ */
+const MenuButton = <TKey extends string>({
+  items,
+  value,
+  onChange,
+  children,
+  className = "",
+}: MenuButtonProps<TKey>) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [focusIndex, setFocusIndex] = useState(-1);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const itemRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const typeaheadRef = useRef({ text: "", at: 0 });
+  const buttonId = useId();
+  const menuId = useId();
+  const placement = useFlipPlacement(buttonRef, menuRef, isOpen);
+
+  const checkedIndex = items.findIndex((item) => item.key === value);
+
+  const open = (index: number) => {
+    setFocusIndex(index);
+    setIsOpen(true);
+  };
+
+  const close = (restoreFocus: boolean) => {
+    setIsOpen(false);
+    if (restoreFocus) buttonRef.current?.focus();
+  };
+
+  useClickOutside(containerRef, () => setIsOpen(false));
+
+  // Roving focus: the focused item is the only one in the tab order.
+  useEffect(() => {
+    if (isOpen && focusIndex >= 0) itemRefs.current[focusIndex]?.focus();
+  }, [isOpen, focusIndex]);
+
+  const select = (key: TKey) => {
+    onChange(key);
+    close(true);
+  };
+
+  const handleButtonKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+      case "Enter":
+      case " ":
+        e.preventDefault();
+        open(Math.max(0, checkedIndex));
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        open(items.length - 1);
+        break;
+    }
+  };
+
+  const typeahead = (char: string) => {
+    const now = Date.now();
+    const buffer = typeaheadRef.current;
+    buffer.text =
+      now - buffer.at < TYPEAHEAD_RESET_MS ? buffer.text + char : char;
+    buffer.at = now;
+
+    // A single repeated letter cycles through the items starting with it.
+    const start = buffer.text.length === 1 ? focusIndex + 1 : focusIndex;
+    for (let step = 0; step < items.length; step++) {
+      const index = (start + step + items.length) % items.length;
+      if (items[index].label.toLowerCase().startsWith(buffer.text)) {
+        setFocusIndex(index);
+        return;
+      }
+    }
+  };
+
+  const handleMenuKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const last = items.length - 1;
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setFocusIndex((index) => (index >= last ? 0 : index + 1));
+        return;
+      case "ArrowUp":
+        e.preventDefault();
+        setFocusIndex((index) => (index <= 0 ? last : index - 1));
+        return;
+      case "Home":
+        e.preventDefault();
+        setFocusIndex(0);
+        return;
+      case "End":
+        e.preventDefault();
+        setFocusIndex(last);
+        return;
+      case "Escape":
+        e.preventDefault();
+        close(true);
+        return;
+      case "Tab":
+        // Tab on from the button; the focused item is about to unmount.
+        close(true);
+        return;
+    }
+    // Space and Enter fall through to the item's own click.
+    if (e.key.length === 1 && e.key !== " " && !e.ctrlKey && !e.metaKey) {
+      typeahead(e.key.toLowerCase());
+    }
+  };
+
+  return (
+    <div ref={containerRef} className={`relative inline-block ${className}`}>
+      <button
+        ref={buttonRef}
+        id={buttonId}
+        type="button"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? menuId : undefined}
+        // Click only: touch devices synthesize it, so touchstart would
+        // toggle the menu twice.
+        onClick={() =>
+          isOpen ? close(false) : open(Math.max(0, checkedIndex))
+        }
+        onKeyDown={handleButtonKeyDown}
+        className="flex items-center gap-2 px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+      >
+        {children ?? items[checkedIndex]?.label}
+      </button>
+      {isOpen && (
+        <div
+          ref={menuRef}
+          id={menuId}
+          role="menu"
+          aria-labelledby={buttonId}
+          onKeyDown={handleMenuKeyDown}
+          className={`absolute z-50 w-64 bg-white border border-gray-200 rounded-lg shadow-lg ${
+            verticalClasses[placement.vertical]
+          } ${horizontalClasses[placement.horizontal]}`}
+        >
+          {items.map((item, index) => (
+            <button
+              key={item.key}
+              ref={(node) => {
+                itemRefs.current[index] = node;
+              }}
+              type="button"
+              role="menuitemradio"
+              aria-checked={item.key === value}
+              tabIndex={index === focusIndex ? 0 : -1}
+              onClick={() => select(item.key)}
+              onMouseEnter={() => setFocusIndex(index)}
+              className={`w-full text-left p-3 hover:bg-gray-50 focus:bg-gray-50 focus:outline-none first:rounded-t-lg last:rounded-b-lg transition-colors ${
+                item.key === value
+                  ? "bg-blue-50 border-l-4 border-blue-500"
+                  : ""
+              }`}
+            >
+              <div className="flex items-center gap-3">
+                {item.icon}
+                <div>
+                  <div className="font-medium text-gray-900">{item.label}</div>
+                  {item.description && (
+                    <div className="text-xs text-gray-500">
+                      {item.description}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MenuButton;
@@ -0,0 +1,52 @@
+import type { JSX } from "react";
+import { Zap, Shield, Settings, Smartphone, Sparkles } from "lucide-react";
+
+export const searchOptions = {
+  auto: "Auto (Adaptive)",
+  instant: "Instant Search",
+  balanced: "Balanced Mode",
+  conservative: "Conservative",
+  manual: "Manual Entry",
+} as const;
+
+export type SearchOptionKey = keyof typeof searchOptions;
+// "auto" | "instant" | "balanced" | "conservative" | "manual"
+
+export type SearchOptionValue = (typeof searchOptions)[SearchOptionKey];
+// "Auto (Adaptive)" | "Instant Search" | "Balanced Mode" | "Conservative" | "Manual Entry"
+
+export const optionMeta: Record<
+  SearchOptionKey,
+  { description: string; icon: JSX.Element }
+> = {
+  auto: {
+    description: "Adapts to latency, rate limits and connection",
+    icon: <Sparkles className="w-5 h-5 text-purple-500" />,
+  },
+  instant: {
+    description: "Executes the search immediately",
+    icon: <Zap className="w-5 h-5 text-blue-500" />,
+  },
+  balanced: {
+    description: "Balances speed with accuracy",
+    icon: <Settings className="w-5 h-5 text-green-500" />,
+  },
+  conservative: {
+    description: "Prefers accuracy and safety",
+    icon: <Shield className="w-5 h-5 text-orange-500" />,
+  },
+  manual: {
+    description: "User triggers search manually",
+    icon: <Smartphone className="w-5 h-5 text-gray-500" />,
+  },
+};
+
+const searchOptionKeys = Object.keys(searchOptions) as SearchOptionKey[];
+
+// The engine speaks in ids; the UI stores display names.
+export const toSearchOptionKey = (value: SearchOptionValue): SearchOptionKey =>
+  searchOptionKeys.find((key) => searchOptions[key] === value) ?? "balanced";
+
+/** Narrows untrusted input (storage, URL, custom strategy ids). */
+export const isSearchOptionKey = (value: unknown): value is SearchOptionKey =>
+  searchOptionKeys.includes(value as SearchOptionKey);
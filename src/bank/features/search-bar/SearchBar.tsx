@@ -1,50 +1,284 @@
-import { Search, X } from "lucide-react";
-import { useRef, useState } from "react";
-import type { SearchOptionValue } from "../btn-dropdown/DropDown";
+import { AlertCircle, Loader2, Search, X } from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { optionMeta, searchOptions } from "../btn-dropdown/searchOptions";
+import useSearchPreferences from "../search-preferences/useSearchPreferences";
+import useClickOutside from "../../hooks/useClickOutside";
+import VirtualList, {
+  type VirtualListHandle,
+} from "../virtual-list/VirtualList";
+import useAdaptiveSearch from "../../../searchbar/hooks/useAdaptiveSearch";
+import useSearchHistory from "../../../searchbar/hooks/useSearchHistory";
+import useQuerySuggestions from "../../../searchbar/hooks/useQuerySuggestions";
+import useComboboxNavigation from "../../../searchbar/hooks/useComboboxNavigation";
+import useResultOptions from "../../../searchbar/hooks/useResultOptions";
+import GhostText from "../../../searchbar/components/GhostText";
+import SuggestionGroup from "../../../searchbar/components/SuggestionGroup";
+import {
+  getUserKey,
+  getUserLabel,
+  renderUserResult,
+  userSearchFields,
+  type User,
+} from "../../../searchbar/entities/user";
+import type { SuggestionAdapter } from "../../../searchbar/adapters/suggestionAdapter";
+import type { SearchAdapter } from "../../../searchbar/adapters/types";
+import type { ResultOption } from "../../../searchbar/types";
+
 interface SearchBarProps {
-  searchMode: SearchOptionValue;
+  /** Storage key for submitted queries, which feed suggestions. */
+  historyKey?: string;
+  /** Server-side query completions. */
+  suggestionAdapter?: SuggestionAdapter;
+  /** User search transport. Defaults to the JSONPlaceholder users API. */
+  adapter?: SearchAdapter<User>;
+  onSelect?: (user: User) => void;
 }
-const SearchBar = ({ searchMode }: SearchBarProps) => {
-  const [query, setQuery] = useState<string>("");
+
+const ROW_HEIGHT = 72;
+const DROPDOWN_MAX_HEIGHT = 320;
+
+const SearchBar = ({
+  historyKey,
+  suggestionAdapter,
+  adapter,
+  onSelect,
+}: SearchBarProps) => {
+  const { mode: modeKey, modeName } = useSearchPreferences();
+  const search = useAdaptiveSearch<User>({
+    adapter,
+    defaultStrategy: modeKey,
+    searchFields: userSearchFields,
+  });
+  const {
+    query,
+    setQuery,
+    submit,
+    setSearchMode,
+    activeMode,
+    autoDecision,
+    results,
+    error,
+    isLoading,
+  } = search;
+
+  // The shared preference owns the mode; debounce, cache use and rate limiting
+  // follow from the strategy it names.
+  useEffect(() => {
+    setSearchMode(modeKey);
+  }, [modeKey, setSearchMode]);
+
+  const [isOpen, setIsOpen] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<VirtualListHandle>(null);
+
+  const { history, items: historyItems } = useSearchHistory<User>(historyKey);
+  const historyQueries = useMemo(
+    () =>
+      historyItems.flatMap((item) =>
+        item.kind === "query" ? [item.query] : []
+      ),
+    [historyItems]
+  );
+  const { completion, others, handleAcceptKey } = useQuerySuggestions({
+    query,
+    historyQueries,
+    cachedQueries: search.cachedQueries,
+    adapter: suggestionAdapter,
+  });
+
+  const acceptSuggestion = useCallback(
+    (text: string) => {
+      setQuery(text);
+      setIsOpen(true);
+    },
+    [setQuery]
+  );
+
+  const handleSelect = useCallback(
+    (user: User) => {
+      history?.addQuery(query);
+      history?.addEntity(user, getUserKey(user), getUserLabel(user));
+      setQuery(getUserLabel(user), { search: false });
+      setIsOpen(false);
+      onSelect?.(user);
+    },
+    [history, query, setQuery, onSelect]
+  );
+
+  const { options, optionsListRef } = useResultOptions(
+    others,
+    results,
+    listRef
+  );
+  const hasOptions = options.length > 0;
+
+  const combobox = useComboboxNavigation({
+    items: options,
+    isOpen: isOpen && hasOptions,
+    pageSize: Math.max(1, Math.floor(DROPDOWN_MAX_HEIGHT / ROW_HEIGHT)),
+    listRef: optionsListRef,
+    onOpen: () => setIsOpen(true),
+    onClose: () => setIsOpen(false),
+    onSelect: (option: ResultOption<User>) =>
+      option.kind === "suggestion"
+        ? acceptSuggestion(option.suggestion.text)
+        : handleSelect(option.item),
+  });
+  const suggestionsId = `${combobox.listboxId}-suggestions`;
+  // Result rows follow the suggestions in the option numbering.
+  const offset = others.length;
+  useClickOutside(containerRef, () => setIsOpen(false));
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newQuery = e.target.value;
-    setQuery(newQuery);
+    setQuery(e.target.value);
+    setIsOpen(true);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (handleAcceptKey(e, acceptSuggestion)) return;
+    if (combobox.handleKeyDown(e)) return;
+    if (e.key === "Enter" && query.trim()) {
+      history?.addQuery(query);
+      setIsOpen(true);
+      // Manual Entry only reaches the API from here.
+      if (activeMode === "manual") submit();
+    }
   };
 
   const clearSearch = () => {
     setQuery("");
+    setIsOpen(false);
+    inputRef.current?.focus();
   };
+
+  const activeMeta = optionMeta[modeKey];
+
   return (
-    <div className="relative">
-      <Search className="absolute left-3 top-7 -translate-y-1/2 text-gray-400 w-5 h-5" />
-      <input
-        ref={inputRef}
-        type="text"
-        value={query}
-        onChange={handleInputChange}
-        placeholder={
-          searchMode === "Manual Entry"
-            ? "Type and press Enter to search..."
-            : "Search users by name, email, or company..."
-        }
-        className="w-full pl-10 pr-10 py-3 text-base border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200 shadow-sm transition-colors"
-        autoComplete="off"
-      />
-      {query && (
-        <button
-          onClick={clearSearch}
-          className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
-          aria-label="Clear search"
-        >
-          <X className="w-5 h-5" />
-        </button>
+    <div className="relative" ref={containerRef}>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={handleInputChange}
+          onKeyDown={handleKeyDown}
+          onFocus={() => hasOptions && setIsOpen(true)}
+          {...combobox.inputProps}
+          aria-controls={
+            others.length > 0
+              ? `${suggestionsId} ${combobox.listboxId}`
+              : combobox.listboxId
+          }
+          aria-label="Search"
+          placeholder={
+            modeKey === "manual"
+              ? "Type and press Enter to search..."
+              : "Search users by name, email, or company..."
+          }
+          className="w-full pl-10 pr-10 py-3 text-base border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200 shadow-sm transition-colors"
+          autoComplete="off"
+        />
+        <GhostText
+          query={query}
+          completion={completion?.text ?? null}
+          className="pl-10 pr-10 py-3 text-base border-2"
+        />
+        {isLoading && (
+          <Loader2 className="absolute right-10 top-1/2 -translate-y-1/2 w-5 h-5 text-blue-500 animate-spin" />
+        )}
+        {query && (
+          <button
+            onClick={clearSearch}
+            className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Clear search"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      {isOpen && (hasOptions || error) && (
+        <div className="absolute w-full mt-1 bg-white rounded-lg shadow-lg border border-gray-200 overflow-hidden z-40">
+          <SuggestionGroup
+            id={suggestionsId}
+            suggestions={others}
+            query={query}
+            getOptionId={combobox.getOptionId}
+            activeIndex={combobox.activeIndex}
+            onSelect={(suggestion) => acceptSuggestion(suggestion.text)}
+            onActivate={(index) => combobox.setActiveIndex(index, false)}
+          />
+          {error && (
+            <div className="p-3 text-red-700 bg-red-50 flex items-start gap-2 border-b">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span className="text-sm">{error}</span>
+            </div>
+          )}
+          <VirtualList
+            ref={listRef}
+            id={combobox.listboxId}
+            role="listbox"
+            aria-label="Search results"
+            items={results}
+            rowHeight={ROW_HEIGHT}
+            maxHeight={DROPDOWN_MAX_HEIGHT}
+            getKey={getUserKey}
+            renderItem={(user, index) => (
+              <div
+                id={combobox.getOptionId(offset + index)}
+                role="option"
+                aria-selected={offset + index === combobox.activeIndex}
+                // Keep focus in the input; selection happens on click.
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => handleSelect(user)}
+                onMouseEnter={() =>
+                  combobox.setActiveIndex(offset + index, false)
+                }
+                className={`w-full h-full px-3 py-2 text-left cursor-pointer border-b border-gray-100 transition-colors ${
+                  offset + index === combobox.activeIndex ? "bg-blue-50" : ""
+                }`}
+              >
+                {renderUserResult(user, { query })}
+              </div>
+            )}
+          />
+        </div>
+      )}
+
+      {modeKey === "manual" && query.trim() && !isLoading && (
+        <p className="mt-1 text-xs text-gray-500 text-center">
+          Press Enter to search API
+        </p>
       )}
-      <div className="mb-6 bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+
+      <div className="mt-4 mb-6 bg-white rounded-lg shadow-sm border border-gray-200 p-4">
         <div className="flex items-center justify-between mb-3">
           <h3 className="font-semibold text-gray-800">Search Strategy</h3>
         </div>
-        {/* <p className="text-sm text-gray-600">{currentStrategy?.description}</p> */}
+        <div className="flex items-center gap-3">
+          {activeMeta.icon}
+          <div>
+            <div className="font-medium text-gray-900">{modeName}</div>
+            <p className="text-sm text-gray-600">{activeMeta.description}</p>
+          </div>
+        </div>
+        {modeKey === "auto" && (
+          <p className="text-sm text-gray-800 mt-2" aria-live="polite">
+            {autoDecision ? (
+              <>
+                Using{" "}
+                <span className="font-medium">
+                  {searchOptions[autoDecision.mode]}
+                </span>
+                : {autoDecision.reason}
+              </>
+            ) : (
+              "Choosing a strategy on the first search"
+            )}
+          </p>
+        )}
       </div>
     </div>
   );
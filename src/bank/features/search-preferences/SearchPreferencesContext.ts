@@ -0,0 +1,18 @@
+import { createContext } from "react";
+import type {
+  SearchOptionKey,
+  SearchOptionValue,
+} from "../btn-dropdown/searchOptions";
+
+export interface SearchPreferences {
+  /** Engine id of the chosen search mode, e.g. `"instant"`. */
+  mode: SearchOptionKey;
+  /** Its display name, e.g. `"Instant Search"`. */
+  modeName: SearchOptionValue;
+  setMode: (mode: SearchOptionKey) => void;
+  setModeByName: (name: SearchOptionValue) => void;
+}
+
+export const SearchPreferencesContext = createContext<
+  SearchPreferences | undefined
+>(undefined);
@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { SearchPreferencesContext } from "./SearchPreferencesContext";
+import {
+  isSearchOptionKey,
+  searchOptions,
+  toSearchOptionKey,
+  type SearchOptionKey,
+  type SearchOptionValue,
+} from "../btn-dropdown/searchOptions";
+
+interface SearchPreferencesProviderProps {
+  /** Keeps each user's choice apart when people share a browser. */
+  userId?: string;
+  /**
+   * Query-string name mirroring the mode, e.g. `"searchMode"`, so a link
+   * opens with the same mode. Omit to leave the URL alone.
+   */
+  urlParam?: string;
+  defaultMode?: SearchOptionKey;
+  children: React.ReactNode;
+}
+
+const STORAGE_PREFIX = "adaptive-search:preferences:";
+
+const readStoredMode = (storageKey: string): SearchOptionKey | null => {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    return isSearchOptionKey(stored) ? stored : null;
+  } catch {
+    // Storage disabled; fall back to the default.
+    return null;
+  }
+};
+
+const readUrlMode = (urlParam?: string): SearchOptionKey | null => {
+  if (!urlParam) return null;
+  const value = new URLSearchParams(window.location.search).get(urlParam);
+  return isSearchOptionKey(value) ? value : null;
+};
+
+/**
+ * The search mode shared by every search field on the page. A URL param
+ * wins on load (shared links), then the user's stored choice. Other tabs'
+ * changes arrive through the `storage` event.
+ */
+export const SearchPreferencesProvider = ({
+  userId = "anonymous",
+  urlParam,
+  defaultMode = "balanced",
+  children,
+}: SearchPreferencesProviderProps) => {
+  const storageKey = STORAGE_PREFIX + userId;
+  // Tied to the key it was read for, so switching users reads theirs.
+  const [stored, setStored] = useState(() => ({
+    storageKey,
+    mode: readUrlMode(urlParam) ?? readStoredMode(storageKey) ?? defaultMode,
+  }));
+  const mode =
+    stored.storageKey === storageKey
+      ? stored.mode
+      : (readStoredMode(storageKey) ?? defaultMode);
+
+  const setMode = useCallback(
+    (next: SearchOptionKey) => {
+      setStored({ storageKey, mode: next });
+      try {
+        localStorage.setItem(storageKey, next);
+      } catch {
+        // Quota or disabled storage; the choice lasts for this visit.
+      }
+    },
+    [storageKey]
+  );
+
+  const setModeByName = useCallback(
+    (name: SearchOptionValue) => setMode(toSearchOptionKey(name)),
+    [setMode]
+  );
+
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== storageKey) return;
+      setStored({
+        storageKey,
+        mode: isSearchOptionKey(event.newValue) ? event.newValue : defaultMode,
+      });
+    };
+    addEventListener("storage", onStorage);
+    return () => removeEventListener("storage", onStorage);
+  }, [storageKey, defaultMode]);
+
+  // Keep the URL shareable; replaceState so mode changes don't pile up
+  // in the back button.
+  useEffect(() => {
+    if (!urlParam) return;
+    const url = new URL(window.location.href);
+    if (url.searchParams.get(urlParam) === mode) return;
+    url.searchParams.set(urlParam, mode);
+    history.replaceState(history.state, "", url);
+  }, [urlParam, mode]);
+
+  const value = useMemo(
+    () => ({ mode, modeName: searchOptions[mode], setMode, setModeByName }),
+    [mode, setMode, setModeByName]
+  );
+
+  return (
+    <SearchPreferencesContext.Provider value={value}>
+      {children}
+    </SearchPreferencesContext.Provider>
+  );
+};
@@ -0,0 +1,17 @@
+import { useContext } from "react";
+import {
+  SearchPreferencesContext,
+  type SearchPreferences,
+} from "./SearchPreferencesContext";
+
+const useSearchPreferences = (): SearchPreferences => {
+  const preferences = useContext(SearchPreferencesContext);
+  if (!preferences) {
+    throw new Error(
+      "useSearchPreferences must be used within a SearchPreferencesProvider"
+    );
+  }
+  return preferences;
+};
+
+export default useSearchPreferences;
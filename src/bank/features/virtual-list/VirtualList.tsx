@@ -0,0 +1,95 @@
+import React, { useImperativeHandle, useRef } from "react";
+import useVirtualWindow from "../../hooks/useVirtualWindow";
+
+export interface VirtualListHandle {
+  scrollToIndex: (index: number) => void;
+}
+
+interface VirtualListProps<T> {
+  items: T[];
+  /** Fixed row height in px; rows are clipped to it. */
+  rowHeight: number;
+  /** Max height of the scroll viewport in px. */
+  maxHeight: number;
+  overscan?: number;
+  getKey: (item: T, index: number) => React.Key;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  /** Called after the window updates, e.g. for infinite scroll. */
+  onScroll?: (e: React.UIEvent<HTMLDivElement>) => void;
+  className?: string;
+  role?: string;
+  id?: string;
+  "aria-label"?: string;
+  /** Focusable so the list can be scrolled from the keyboard. */
+  focusable?: boolean;
+  ref?: React.Ref<VirtualListHandle>;
+}
+
+const VirtualList = <T,>({
+  items,
+  rowHeight,
+  maxHeight,
+  overscan,
+  getKey,
+  renderItem,
+  onScroll,
+  className = "",
+  focusable = false,
+  ref,
+  ...aria
+}: VirtualListProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const win = useVirtualWindow({
+    containerRef,
+    count: items.length,
+    rowHeight,
+    overscan,
+  });
+
+  useImperativeHandle(ref, () => ({ scrollToIndex: win.scrollToIndex }), [
+    win.scrollToIndex,
+  ]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    win.onScroll(e);
+    onScroll?.(e);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={handleScroll}
+      onKeyDown={focusable ? win.onKeyDown : undefined}
+      tabIndex={focusable ? 0 : undefined}
+      className={`overflow-y-auto ${className}`}
+      style={{ maxHeight }}
+      {...aria}
+    >
+      {/* Wrappers are presentational so `role="option"` rows stay owned by a listbox. */}
+      <div
+        role="presentation"
+        style={{ height: win.totalHeight, position: "relative" }}
+      >
+        <div
+          role="presentation"
+          style={{ transform: `translateY(${win.offsetBefore}px)` }}
+        >
+          {items.slice(win.startIndex, win.endIndex).map((item, i) => {
+            const index = win.startIndex + i;
+            return (
+              <div
+                key={getKey(item, index)}
+                role="presentation"
+                style={{ height: rowHeight, overflow: "hidden" }}
+              >
+                {renderItem(item, index)}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VirtualList;
@@ -0,0 +1,94 @@
+import React, { useRef } from "react";
+import useVirtualWindow from "../../hooks/useVirtualWindow";
+
+export interface VirtualTableColumn<T> {
+  key: string;
+  header: React.ReactNode;
+  render?: (row: T) => React.ReactNode;
+}
+
+interface VirtualTableProps<T> {
+  rows: T[];
+  columns: VirtualTableColumn<T>[];
+  /** Fixed body row height in px. */
+  rowHeight: number;
+  /** Max height of the scroll viewport in px. */
+  maxHeight: number;
+  overscan?: number;
+  getRowKey: (row: T, index: number) => React.Key;
+  className?: string;
+}
+
+/**
+ * Table that only mounts the visible body rows. Spacer rows above and below
+ * keep the scrollbar and column widths stable; the header stays sticky.
+ */
+const VirtualTable = <T,>({
+  rows,
+  columns,
+  rowHeight,
+  maxHeight,
+  overscan,
+  getRowKey,
+  className = "",
+}: VirtualTableProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const win = useVirtualWindow({
+    containerRef,
+    count: rows.length,
+    rowHeight,
+    overscan,
+  });
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={win.onScroll}
+      onKeyDown={win.onKeyDown}
+      tabIndex={0}
+      className={`overflow-auto focus:outline-none focus:ring-2 focus:ring-blue-200 ${className}`}
+      style={{ maxHeight }}
+    >
+      <table className="border-collapse border w-full text-left">
+        <thead className="sticky top-0">
+          <tr>
+            {columns.map((column) => (
+              <th key={column.key} className="border px-2 py-1 bg-gray-100">
+                {column.header}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {win.offsetBefore > 0 && (
+            <tr aria-hidden="true" style={{ height: win.offsetBefore }} />
+          )}
+          {rows.slice(win.startIndex, win.endIndex).map((row, i) => {
+            const index = win.startIndex + i;
+            return (
+              <tr key={getRowKey(row, index)} style={{ height: rowHeight }}>
+                {columns.map((column) => (
+                  <td
+                    key={column.key}
+                    className="border px-2 py-1 whitespace-nowrap"
+                  >
+                    {column.render
+                      ? column.render(row)
+                      : String(
+                          (row as Record<string, unknown>)[column.key] ?? ""
+                        )}
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+          {win.offsetAfter > 0 && (
+            <tr aria-hidden="true" style={{ height: win.offsetAfter }} />
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default VirtualTable;
@@ -0,0 +1,63 @@
+import { useLayoutEffect, useState, type RefObject } from "react";
+
+export interface FlipPlacement {
+  /** Below the anchor, or above it when there's no room below. */
+  vertical: "bottom" | "top";
+  /** Left edges aligned, or right edges when it would overflow right. */
+  horizontal: "start" | "end";
+}
+
+const defaultPlacement: FlipPlacement = {
+  vertical: "bottom",
+  horizontal: "start",
+};
+
+/**
+ * Picks the side of `anchorRef` that `floatingRef` fits on, flipping at
+ * the viewport edges. Re-measured on resize and scroll while `isOpen`.
+ */
+const useFlipPlacement = (
+  anchorRef: RefObject<HTMLElement | null>,
+  floatingRef: RefObject<HTMLElement | null>,
+  isOpen: boolean
+): FlipPlacement => {
+  const [placement, setPlacement] = useState(defaultPlacement);
+
+  useLayoutEffect(() => {
+    if (!isOpen) return;
+
+    const update = () => {
+      const anchor = anchorRef.current?.getBoundingClientRect();
+      const floating = floatingRef.current;
+      if (!anchor || !floating) return;
+
+      // Size only, not position, so flipping can't feed back into itself.
+      const { offsetHeight: height, offsetWidth: width } = floating;
+      const spaceBelow = window.innerHeight - anchor.bottom;
+      const spaceRight = window.innerWidth - anchor.left;
+      const next: FlipPlacement = {
+        vertical:
+          height > spaceBelow && anchor.top > spaceBelow ? "top" : "bottom",
+        horizontal:
+          width > spaceRight && anchor.right > spaceRight ? "end" : "start",
+      };
+      setPlacement((prev) =>
+        prev.vertical === next.vertical && prev.horizontal === next.horizontal
+          ? prev
+          : next
+      );
+    };
+    update();
+
+    addEventListener("resize", update);
+    addEventListener("scroll", update, true);
+    return () => {
+      removeEventListener("resize", update);
+      removeEventListener("scroll", update, true);
+    };
+  }, [anchorRef, floatingRef, isOpen]);
+
+  return placement;
+};
+
+export default useFlipPlacement;
@@ -0,0 +1,106 @@
+import { useCallback, useLayoutEffect, useState, type RefObject } from "react";
+
+interface UseVirtualWindowOptions {
+  /** Scrollable element that owns the rows. */
+  containerRef: RefObject<HTMLElement | null>;
+  count: number;
+  /** Fixed height of every row, in px. */
+  rowHeight: number;
+  /** Extra rows rendered above and below the viewport. */
+  overscan?: number;
+}
+
+/**
+ * Computes which slice of a fixed-row-height list is visible inside
+ * `containerRef`. Callers render `[startIndex, endIndex)` and pad the rest
+ * with `offsetBefore` / `offsetAfter` so the scrollbar stays honest.
+ */
+const useVirtualWindow = ({
+  containerRef,
+  count,
+  rowHeight,
+  overscan = 4,
+}: UseVirtualWindowOptions) => {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useLayoutEffect(() => {
+    const node = containerRef.current;
+    if (!node) return;
+
+    const measure = () => setViewportHeight(node.clientHeight);
+    measure();
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [containerRef]);
+
+  const startIndex = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const endIndex = Math.min(
+    count,
+    Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan
+  );
+
+  const onScroll = useCallback((e: React.UIEvent<HTMLElement>) => {
+    setScrollTop(e.currentTarget.scrollTop);
+  }, []);
+
+  /** Scrolls the minimum distance needed to bring `index` into view. */
+  const scrollToIndex = useCallback(
+    (index: number) => {
+      const node = containerRef.current;
+      if (!node) return;
+
+      const top = index * rowHeight;
+      const bottom = top + rowHeight;
+      if (top < node.scrollTop) {
+        node.scrollTop = top;
+      } else if (bottom > node.scrollTop + node.clientHeight) {
+        node.scrollTop = bottom - node.clientHeight;
+      }
+    },
+    [containerRef, rowHeight]
+  );
+
+  // Arrow / Page / Home / End scrolling for a focused container.
+  const onKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLElement>) => {
+      const node = containerRef.current;
+      if (!node) return;
+
+      const page = Math.max(rowHeight, node.clientHeight - rowHeight);
+      const deltas: Record<string, number> = {
+        ArrowDown: rowHeight,
+        ArrowUp: -rowHeight,
+        PageDown: page,
+        PageUp: -page,
+      };
+
+      if (e.key in deltas) {
+        node.scrollTop += deltas[e.key];
+      } else if (e.key === "Home") {
+        node.scrollTop = 0;
+      } else if (e.key === "End") {
+        node.scrollTop = node.scrollHeight;
+      } else {
+        return;
+      }
+      e.preventDefault();
+    },
+    [containerRef, rowHeight]
+  );
+
+  return {
+    startIndex,
+    endIndex,
+    offsetBefore: startIndex * rowHeight,
+    offsetAfter: Math.max(0, (count - endIndex) * rowHeight),
+    totalHeight: count * rowHeight,
+    onScroll,
+    onKeyDown,
+    scrollToIndex,
+  };
+};
+
+export default useVirtualWindow;
@@ -5,7 +5,12 @@ import React, {
   useMemo,
   useCallback,
   useContext,
+  useRef,
 } from "react";
+import FederatedSearch from "../searchbar/FederatedSearch";
+import { createFederatedSource } from "../searchbar/federatedSource";
+import { createMemoryAdapter } from "../searchbar/adapters/memoryAdapter";
+import type { SearchAdapter } from "../searchbar/adapters/types";
 import { ReportsContext } from "./ReportContext";
 import { useReportsUrlParams } from "./ReportUrlUtils";
 import ReportsProvider from "./ReportProvider";
@@ -28,6 +33,7 @@ const Reports = () => {
     reportDataLoading: isLoading,
     skuMap,
     clientMap,
+    skusData,
     setShowFilterModal,
   } = context;
 
@@ -85,6 +91,69 @@ const Reports = () => {
     parsedFilters,
   ]);
 
+  // The search sources read the filters through a ref so they stay stable
+  // (each owns a cache) while picks change the URL.
+  const parsedFiltersRef = useRef(parsedFilters);
+  useEffect(() => {
+    parsedFiltersRef.current = parsedFilters;
+  }, [parsedFilters]);
+
+  const addFilterValue = useCallback(
+    (key: "clientIds" | "skuId", id: string) => {
+      const filters = parsedFiltersRef.current;
+      const ids = filters[key] ?? [];
+      if (ids.includes(id)) return;
+      updateUrlParams({ ...filters, [key]: [...ids, id], page: 1 });
+    },
+    [updateUrlParams]
+  );
+
+  // One input over clients and SKUs; picking a row filters the report by it.
+  const searchSources = useMemo(() => {
+    const clientAdapter: SearchAdapter<IClientItem> = {
+      id: "reports:clients",
+      serverFiltered: true,
+      search: async ({ query, page = 1, limit = 25, signal }) => {
+        signal?.throwIfAborted();
+        const response = await APIHandler.getFilteredData({
+          q: query,
+          sortBy: "clientName",
+          sortOrder: "desc",
+          page,
+          pageSize: limit,
+        });
+        // Drop the response if the query moved on while it was in flight.
+        signal?.throwIfAborted();
+        return { items: response?.data?.items ?? [] };
+      },
+    };
+
+    return [
+      createFederatedSource<IClientItem>({
+        id: "clients",
+        label: t("adminCenter.reports.table.clientName"),
+        adapter: clientAdapter,
+        getKey: (client) => client.id,
+        getLabel: (client) => client.clientName,
+        searchFields: ["clientName"],
+        onSelect: (client) => addFilterValue("clientIds", client.id),
+      }),
+      createFederatedSource<IMasterBom>({
+        id: "skus",
+        label: t("adminCenter.reports.table.sku"),
+        // The provider already loads every BOM, so SKUs match locally.
+        adapter: createMemoryAdapter<IMasterBom>({
+          data: skusData,
+          searchFields: ["skuId", "name"],
+        }),
+        getKey: (sku) => sku.skuId,
+        getLabel: (sku) => sku.name,
+        searchFields: ["skuId", { field: "name", weight: 2 }],
+        onSelect: (sku) => addFilterValue("skuId", sku.skuId),
+      }),
+    ];
+  }, [t, skusData, addFilterValue]);
+
   const handleResetFilters = useCallback(() => {
     setActiveFilters({});
     setAppliedFilters({});
@@ -250,6 +319,13 @@ const Reports = () => {
             >
               {t("adminCenter.reports.tabName")}
             </Typography>
+            <FederatedSearch
+              sources={searchSources}
+              placeholder={t(
+                "adminCenter.reports.searchPlaceholder",
+                "Find clients or SKUs"
+              )}
+            />
             <Popover
               content={<ReportFilterComponent />}
               trigger="click"
@@ -1,6 +1,10 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import React, { useContext } from "react";
+import React, { useContext, useMemo } from "react";
 import { FilterContext } from "./FilterContext";
+import VirtualTable from "../bank/features/virtual-table/VirtualTable";
+
+const ROW_HEIGHT = 33;
+const TABLE_MAX_HEIGHT = 600;
 
 interface Item {
   [key: string]: any; // dynamic keys for all 14+ fields
@@ -17,44 +21,34 @@ const Table: React.FC<TableProps> = ({ data }) => {
   const { appliedFilters } = context;
 
   // Filter data based on appliedFilters
-  const filteredData = data.filter((item) => {
-    return Object.entries(appliedFilters).every(([key, value]) => {
-      if (!value) return true;
-      return item[key] === value;
-    });
-  });
-
-  console.log("Table rendered");
+  const filteredData = useMemo(
+    () =>
+      data.filter((item) => {
+        return Object.entries(appliedFilters).every(([key, value]) => {
+          if (!value) return true;
+          return item[key] === value;
+        });
+      }),
+    [data, appliedFilters]
+  );
 
   if (filteredData.length === 0) return <p className="p-4">No items found.</p>;
 
   // Dynamically get table headers from first item
-  const headers = Object.keys(filteredData[0]);
+  const columns = Object.keys(filteredData[0]).map((header) => ({
+    key: header,
+    header,
+  }));
 
   return (
-    <div className="p-4 overflow-x-auto">
-      <table className="border-collapse border w-full text-left">
-        <thead>
-          <tr>
-            {headers.map((header) => (
-              <th key={header} className="border px-2 py-1 bg-gray-100">
-                {header}
-              </th>
-            ))}
-          </tr>
-        </thead>
-        <tbody>
-          {filteredData.map((item, idx) => (
-            <tr key={idx}>
-              {headers.map((header) => (
-                <td key={header} className="border px-2 py-1">
-                  {item[header]}
-                </td>
-              ))}
-            </tr>
-          ))}
-        </tbody>
-      </table>
+    <div className="p-4">
+      <VirtualTable
+        rows={filteredData}
+        columns={columns}
+        rowHeight={ROW_HEIGHT}
+        maxHeight={TABLE_MAX_HEIGHT}
+        getRowKey={(_item, idx) => idx}
+      />
     </div>
   );
 };
@@ -1,10 +1,9 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-
 import React, {
   useState,
   useRef,
-  useEffect,
   useCallback,
+  useContext,
+  useEffect,
   useMemo,
 } from "react";
 import {
@@ -13,911 +12,625 @@ import {
   Loader2,
   AlertCircle,
   Settings,
-  Zap,
-  Shield,
-  Smartphone,
+  WifiOff,
 } from "lucide-react";
 import useClickOutside from "../bank/hooks/useClickOutside";
+import MenuButton, {
+  type MenuButtonItem,
+} from "../bank/features/btn-dropdown/MenuButton";
+import { SearchPreferencesContext } from "../bank/features/search-preferences/SearchPreferencesContext";
+import { isSearchOptionKey } from "../bank/features/btn-dropdown/searchOptions";
+import useAdaptiveSearch from "./hooks/useAdaptiveSearch";
+import DefaultResultRow from "./components/DefaultResultRow";
+import VirtualList, {
+  type VirtualListHandle,
+} from "../bank/features/virtual-list/VirtualList";
+import SearchStatusAnnouncer from "./components/SearchStatusAnnouncer";
+import RateLimitNotice from "./components/RateLimitNotice";
+import useComboboxNavigation from "./hooks/useComboboxNavigation";
+import useCountdown from "./hooks/useCountdown";
+import useSearchHistory from "./hooks/useSearchHistory";
+import SearchHistoryPanel from "./components/SearchHistoryPanel";
+import useQuerySuggestions from "./hooks/useQuerySuggestions";
+import useResultOptions from "./hooks/useResultOptions";
+import GhostText from "./components/GhostText";
+import SelectionChips from "./components/SelectionChips";
+import useSelection from "./hooks/useSelection";
+import QueryChips from "./components/QueryChips";
+import QueryDiagnostics from "./components/QueryDiagnostics";
+import SuggestionGroup from "./components/SuggestionGroup";
+import {
+  getFieldText,
+  toFieldAccessor,
+  type KeyAccessor,
+} from "./engine/fields";
+import type { PageInfo, SearchMode } from "./engine/types";
+import type {
+  StrategyMetadata,
+  StrategyRegistry,
+} from "./engine/strategyRegistry";
+import type { TelemetrySink } from "./engine/telemetry";
+import type { HistoryItem } from "./engine/searchHistory";
+import type { QuerySuggestion } from "./engine/suggestions";
+import type { SuggestionAdapter } from "./adapters/suggestionAdapter";
+import { AUTO_STRATEGY } from "./builtinStrategies";
+import type { ResultOption, SearchEntityProps } from "./types";
+import type { SearchAdapter } from "./adapters/types";
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
-interface User {
-  id: number;
-  name: string;
-  email: string;
-  company: {
-    name: string;
-  };
-}
-
-interface ApiResult {
-  isLoading: boolean;
-  error: string | null;
-  results: User[];
-  isDropdownOpen: boolean;
-}
-type SearchMode = "instant" | "balanced" | "conservative" | "manual";
-
-interface SearchStrategy {
-  id: SearchMode;
-  name: string;
-  description: string;
-  icon: React.ReactNode;
-  recommendedFor: string;
-}
-
-interface CacheEntry<T> {
-  data: T[];
-  timestamp: number;
-}
-
-interface SearchStats {
-  apiCalls: number;
-  cacheHits: number;
-  localSearches: number;
-}
-
-interface SearchComponentProps {
+interface SearchComponentProps<T> extends SearchEntityProps<T> {
+  /** Search transport. Replaces `apiEndpoint` when given. */
+  adapter?: SearchAdapter<T>;
   apiEndpoint?: string | ((query: string) => string);
   debounceMs?: number;
   minQueryLength?: number;
   maxResults?: number;
-  onUserSelect?: (user: User) => void;
   defaultStrategy?: SearchMode;
+  /** Strategies offered in the selector, besides auto. Defaults to the built-ins. */
+  strategyRegistry?: StrategyRegistry<T>;
   rateLimit?: number;
   rateLimitWindow?: number;
+  /** Extra attempts for network errors and 5xx responses. */
+  maxRetries?: number;
+  /** Consecutive failures before switching to local-only mode. */
+  failureThreshold?: number;
   cacheDuration?: number;
   maxCacheSize?: number;
+  /** Approximate memory budget for cached results, in bytes. */
+  maxCacheBytes?: number;
+  /** Persist cached results across reloads and share them between tabs. */
+  persistCache?: boolean;
+  /** Minimum similarity (0–1) for typo-tolerant matches. */
+  fuzzyThreshold?: number;
+  /** Receive query, latency, selection and abandonment events. */
+  telemetry?: TelemetrySink[];
+  /**
+   * Show recent searches and favorites when the input is empty, stored
+   * under this key. Include the user id, e.g. `${userId}:clients`.
+   */
+  historyKey?: string;
+  /** Server-side query completions, on top of history and cache. */
+  suggestionAdapter?: SuggestionAdapter;
   showStats?: boolean;
   showStrategySelector?: boolean;
-  searchFields?: (keyof User)[];
+  placeholder?: string;
+  /** Fixed height of a result row in px; rows are virtualized. */
+  resultRowHeight?: number;
 }
 
-interface SearchResult<T> {
-  data: T[];
-  source: "cache" | "api" | "local" | "rate_limited";
-  error?: string;
-}
-
-// ============================================================================
-// UTILITY FUNCTIONS
-// ============================================================================
-
-const createRateLimiter = (limit: number, windowMs: number = 60000) => {
-  const requests: number[] = [];
-
-  const cleanup = () => {
-    const cutoff = Date.now() - windowMs;
-    for (let i = requests.length - 1; i >= 0; i--) {
-      if (requests[i] <= cutoff) {
-        requests.splice(i, 1);
-      }
-    }
-  };
-
-  return {
-    isLimited: () => {
-      cleanup();
-      return requests.length >= limit;
-    },
-    record: () => {
-      requests.push(Date.now());
-    },
-    reset: () => {
-      requests.length = 0;
-    },
-    remaining: () => {
-      cleanup();
-      return Math.max(0, limit - requests.length);
-    },
-  };
-};
-
-const createSearchCache = <T,>(duration: number, maxSize: number = 50) => {
-  const cache = new Map<string, CacheEntry<T>>();
-
-  return {
-    get: (query: string): T[] | null => {
-      const entry = cache.get(query);
-      if (!entry) return null;
-
-      if (Date.now() - entry.timestamp > duration) {
-        cache.delete(query);
-        return null;
-      }
-
-      return entry.data;
-    },
-
-    set: (query: string, data: T[]): void => {
-      if (cache.size >= maxSize) {
-        const firstKey = Array.from(cache.keys())[0];
-        if (firstKey) cache.delete(firstKey);
-      }
-
-      cache.set(query, {
-        data,
-        timestamp: Date.now(),
-      });
-    },
-
-    fuzzyMatch: (query: string): T[] | null => {
-      const lowerQuery = query.toLowerCase();
-
-      for (const [cachedQuery, entry] of cache.entries()) {
-        if (Date.now() - entry.timestamp > duration) continue;
-
-        const lowerCached = cachedQuery.toLowerCase();
-        if (
-          lowerQuery.startsWith(lowerCached) ||
-          lowerCached.includes(lowerQuery)
-        ) {
-          return entry.data;
-        }
-      }
-
-      return null;
-    },
-
-    clear: (): void => {
-      cache.clear();
-    },
-
-    get size(): number {
-      return cache.size;
-    },
-  };
-};
-
 // ============================================================================
-// SEARCH STRATEGY IMPLEMENTATIONS
+// SUB-COMPONENTS
 // ============================================================================
 
-const createInstantSearchStrategy = <T,>(
-  cache: ReturnType<typeof createSearchCache<T>>,
-  rateLimiter: ReturnType<typeof createRateLimiter>
-) => {
-  const tryApiSearch = async (
-    query: string,
-    apiSearch: (q: string) => Promise<T[]>
-  ): Promise<SearchResult<T>> => {
-    if (rateLimiter.isLimited()) {
-      return {
-        data: [],
-        source: "rate_limited",
-        error: "Rate limit exceeded. Please slow down.",
-      };
-    }
-
-    try {
-      const data = await apiSearch(query);
-      rateLimiter.record();
-      cache.set(query, data);
-      return { data, source: "api" };
-    } catch (error) {
-      return {
-        data: [],
-        source: "api",
-        error: error instanceof Error ? error.message : "Search failed",
-      };
-    }
-  };
-
-  return {
-    execute: async (
-      query: string,
-      apiSearch: (q: string) => Promise<T[]>
-    ): Promise<SearchResult<T>> => {
-      return tryApiSearch(query, apiSearch);
-    },
-  };
-};
-
-const createBalancedSearchStrategy = <T,>(
-  cache: ReturnType<typeof createSearchCache<T>>,
-  rateLimiter: ReturnType<typeof createRateLimiter>
-) => {
-  const tryApiSearch = async (
-    query: string,
-    apiSearch: (q: string) => Promise<T[]>
-  ): Promise<SearchResult<T>> => {
-    if (rateLimiter.isLimited()) {
-      return {
-        data: [],
-        source: "rate_limited",
-        error: "Rate limit exceeded. Please slow down.",
-      };
-    }
+const LocalOnlyBanner = ({ until }: { until: number }) => {
+  const secondsLeft = useCountdown(until);
 
-    try {
-      const data = await apiSearch(query);
-      rateLimiter.record();
-      cache.set(query, data);
-      return { data, source: "api" };
-    } catch (error) {
-      return {
-        data: [],
-        source: "api",
-        error: error instanceof Error ? error.message : "Search failed",
-      };
-    }
-  };
-
-  return {
-    execute: async (
-      query: string,
-      apiSearch: (q: string) => Promise<T[]>,
-      localSearch: (q: string) => T[]
-    ): Promise<SearchResult<T>> => {
-      const cached = cache.get(query);
-      if (cached) {
-        return { data: cached, source: "cache" };
-      }
-
-      const fuzzyMatch = cache.fuzzyMatch(query);
-      if (fuzzyMatch) {
-        return { data: fuzzyMatch, source: "cache" };
-      }
-
-      const apiResult = await tryApiSearch(query, apiSearch);
-      if (apiResult.error && apiResult.data.length === 0) {
-        const localData = localSearch(query);
-        if (localData.length > 0) {
-          return {
-            data: localData,
-            source: "local",
-            error: "Showing local results (API unavailable)",
-          };
-        }
-      }
-
-      return apiResult;
-    },
-  };
+  return (
+    <div
+      className="mb-3 p-3 rounded-lg bg-amber-50 border border-amber-200 text-amber-800 text-sm flex items-center gap-2"
+      role="status"
+    >
+      <WifiOff className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+      Search service unavailable, showing local results only.{" "}
+      {secondsLeft > 0
+        ? `Retrying in ${secondsLeft}s.`
+        : "Retrying on your next search."}
+    </div>
+  );
 };
 
-const createConservativeSearchStrategy = <T,>(
-  cache: ReturnType<typeof createSearchCache<T>>,
-  rateLimiter: ReturnType<typeof createRateLimiter>
-) => {
-  const tryApiSearch = async (
-    query: string,
-    apiSearch: (q: string) => Promise<T[]>
-  ): Promise<SearchResult<T>> => {
-    if (rateLimiter.isLimited()) {
-      return {
-        data: [],
-        source: "rate_limited",
-        error: "Rate limit exceeded. Please slow down.",
-      };
-    }
+// Distance from the bottom (px) at which the next page starts loading.
+const LOAD_MORE_THRESHOLD = 48;
+// Matches the old `max-h-80` dropdown.
+const DROPDOWN_MAX_HEIGHT = 320;
+
+const formatMs = (ms: number | null) =>
+  ms === null ? "–" : `${Math.round(ms)}ms`;
+
+interface SearchDropdownProps<T> {
+  /** Query suggestions listed above the results. */
+  suggestions: QuerySuggestion[];
+  suggestionsId: string;
+  query: string;
+  onSelectSuggestion: (suggestion: QuerySuggestion) => void;
+  results: T[];
+  error?: string;
+  /** Set while rate limited; replaces `error` with a countdown. */
+  retryAt: number | null;
+  onRetry: () => void;
+  pageInfo: PageInfo | null;
+  isLoadingMore: boolean;
+  /** Rows are cached and being refreshed in the background. */
+  isUpdating: boolean;
+  rowHeight: number;
+  listboxId: string;
+  /** Option index; suggestions come first, then results. */
+  activeIndex: number;
+  getOptionId: (index: number) => string;
+  listRef: React.Ref<VirtualListHandle>;
+  getKey: KeyAccessor<T>;
+  renderResult: (item: T) => React.ReactNode;
+  onSelect: (item: T) => void;
+  onActivate: (index: number) => void;
+  onLoadMore: () => void;
+}
 
-    try {
-      const data = await apiSearch(query);
-      rateLimiter.record();
-      cache.set(query, data);
-      return { data, source: "api" };
-    } catch (error) {
-      return {
-        data: [],
-        source: "api",
-        error: error instanceof Error ? error.message : "Search failed",
-      };
+const SearchDropdown = <T,>({
+  suggestions,
+  suggestionsId,
+  query,
+  onSelectSuggestion,
+  results,
+  error,
+  retryAt,
+  onRetry,
+  pageInfo,
+  isLoadingMore,
+  isUpdating,
+  rowHeight,
+  listboxId,
+  activeIndex,
+  getOptionId,
+  listRef,
+  getKey,
+  renderResult,
+  onSelect,
+  onActivate,
+  onLoadMore,
+}: SearchDropdownProps<T>) => {
+  if (!suggestions.length && !results.length && !error) return null;
+
+  // Result rows follow the suggestions in the combobox's option numbering.
+  const offset = suggestions.length;
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+    if (scrollHeight - scrollTop - clientHeight < LOAD_MORE_THRESHOLD) {
+      onLoadMore();
     }
   };
 
-  return {
-    execute: async (
-      query: string,
-      apiSearch: (q: string) => Promise<T[]>,
-      localSearch: (q: string) => T[]
-    ): Promise<SearchResult<T>> => {
-      if (query.length <= 3) {
-        const localData = localSearch(query);
-        return {
-          data: localData,
-          source: "local",
-          error:
-            localData.length === 0
-              ? "Type more characters for API search"
-              : undefined,
-        };
-      }
-
-      const cached = cache.get(query) || cache.fuzzyMatch(query);
-      if (cached) {
-        return { data: cached, source: "cache" };
-      }
-
-      if (rateLimiter.isLimited()) {
-        const localData = localSearch(query);
-        return {
-          data: localData,
-          source: "rate_limited",
-          error: "Rate limited. Showing local results.",
-        };
-      }
-
-      return tryApiSearch(query, apiSearch);
-    },
-  };
-};
-
-const createManualSearchStrategy = <T,>(
-  cache: ReturnType<typeof createSearchCache<T>>
-) => {
-  return {
-    execute: async (
-      query: string,
-      _apiSearch: (q: string) => Promise<T[]>,
-      localSearch: (q: string) => T[]
-    ): Promise<SearchResult<T>> => {
-      const cached = cache.get(query);
-      if (cached) {
-        return { data: cached, source: "cache" };
-      }
-
-      const localData = localSearch(query);
-      return {
-        data: localData,
-        source: "local",
-        error:
-          localData.length === 0
-            ? "No local results. Press Enter for API search."
-            : undefined,
-      };
-    },
-  };
-};
-
-// ============================================================================
-// HOOKS
-// ============================================================================
-
-function useDebounce<T extends (...args: any[]) => any>(
-  callback: T,
-  delay: number
-): (...args: Parameters<T>) => void {
-  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-
-  useEffect(() => {
-    return () => {
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-      }
-    };
-  }, []);
-
-  return useCallback(
-    (...args: Parameters<T>) => {
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-      }
-      timeoutRef.current = setTimeout(() => callback(...args), delay);
-    },
-    [callback, delay]
+  return (
+    <div className="absolute w-full mt-1 bg-white rounded-lg shadow-lg border border-gray-200 overflow-hidden z-40">
+      <SuggestionGroup
+        id={suggestionsId}
+        suggestions={suggestions}
+        query={query}
+        getOptionId={getOptionId}
+        activeIndex={activeIndex}
+        onSelect={onSelectSuggestion}
+        onActivate={onActivate}
+      />
+      {results.length > 0 && (
+        <div className="p-2 text-xs text-gray-500 border-b bg-gray-50 flex justify-between">
+          <span>
+            {pageInfo?.total !== undefined && pageInfo.total > results.length
+              ? `${results.length} of ${pageInfo.total} results`
+              : `${results.length} result${results.length !== 1 ? "s" : ""}`}
+          </span>
+          {isUpdating && (
+            <span className="flex items-center gap-1 text-blue-600">
+              <Loader2 className="w-3 h-3 animate-spin" aria-hidden="true" />
+              Updating…
+            </span>
+          )}
+        </div>
+      )}
+      {retryAt !== null ? (
+        <RateLimitNotice retryAt={retryAt} onExpire={onRetry} />
+      ) : (
+        error && (
+          <div className="p-3 text-red-700 bg-red-50 flex items-start gap-2 border-b">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )
+      )}
+      <VirtualList
+        ref={listRef}
+        id={listboxId}
+        role="listbox"
+        aria-label="Search results"
+        items={results}
+        rowHeight={rowHeight}
+        maxHeight={DROPDOWN_MAX_HEIGHT}
+        getKey={(item) => getKey(item)}
+        onScroll={handleScroll}
+        renderItem={(item, index) => (
+          <div
+            id={getOptionId(offset + index)}
+            role="option"
+            aria-selected={offset + index === activeIndex}
+            aria-setsize={pageInfo?.total ?? results.length}
+            aria-posinset={index + 1}
+            aria-busy={isUpdating || undefined}
+            data-updating={isUpdating || undefined}
+            // Keep focus in the input; selection happens on click.
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(item)}
+            onMouseEnter={() => onActivate(offset + index)}
+            className={`w-full h-full px-3 py-2 text-left cursor-pointer border-b border-gray-100 transition-colors ${
+              offset + index === activeIndex ? "bg-blue-50" : ""
+            } ${isUpdating ? "opacity-60" : ""}`}
+          >
+            {renderResult(item)}
+          </div>
+        )}
+      />
+      {isLoadingMore && (
+        <div className="flex justify-center p-2 border-t">
+          <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />
+        </div>
+      )}
+    </div>
   );
-}
+};
 
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
 
-const AdvancedSearchComponent = ({
+const AdvancedSearchComponent = <T,>({
+  adapter,
   apiEndpoint = "https://jsonplaceholder.typicode.com/users",
   debounceMs = 300,
   minQueryLength = 2,
   maxResults = 50,
-  onUserSelect,
   defaultStrategy = "balanced",
+  strategyRegistry,
   rateLimit = 60,
   rateLimitWindow = 60000,
+  maxRetries,
+  failureThreshold,
   cacheDuration = 5 * 60 * 1000,
   maxCacheSize = 50,
+  maxCacheBytes,
+  persistCache = false,
+  fuzzyThreshold,
+  telemetry,
+  historyKey,
+  suggestionAdapter,
   showStats = false,
   showStrategySelector = false,
-  searchFields = ["name", "email"],
-}: SearchComponentProps) => {
-  // useState
-
-  // batch 01
-  const [showStrategyMenu, setShowStrategyMenu] = useState(false);
-  const [searchMode, setSearchMode] = useState<SearchMode>(defaultStrategy);
-  // batch 02
-  const [apiResult, setApiResult] = useState<ApiResult>({
-    isLoading: false,
-    error: null,
-    results: [],
-    isDropdownOpen: false,
+  placeholder = "Search...",
+  resultRowHeight = 72,
+  searchFields,
+  getKey,
+  getLabel,
+  renderResult,
+  onSelect,
+  multiple = false,
+  selected,
+  onSelectionChange,
+}: SearchComponentProps<T>) => {
+  // Inside a SearchPreferencesProvider the mode is shared with the page.
+  const preferences = useContext(SearchPreferencesContext);
+  const sharedMode = preferences?.mode;
+  const search = useAdaptiveSearch<T>({
+    adapter,
+    apiEndpoint,
+    debounceMs,
+    minQueryLength,
+    maxResults,
+    defaultStrategy: sharedMode ?? defaultStrategy,
+    strategyRegistry,
+    rateLimit,
+    rateLimitWindow,
+    maxRetries,
+    failureThreshold,
+    cacheDuration,
+    maxCacheSize,
+    maxCacheBytes,
+    persistCache,
+    fuzzyThreshold,
+    telemetry,
+    searchFields,
   });
-
-  // batch 03
-  const [query, setQuery] = useState("");
-  const [searchStats, setSearchStats] = useState<SearchStats>({
-    apiCalls: 0,
-    cacheHits: 0,
-    localSearches: 0,
+  const {
+    query,
+    setQuery,
+    submit,
+    clear,
+    searchMode,
+    setSearchMode,
+    activeMode,
+    results: allResults,
+    error,
+    isLoading,
+    isLoadingMore,
+    isRevalidating,
+    pageInfo,
+    loadMore,
+    source,
+    stats,
+    analytics,
+    trackSelection,
+    trackDismiss,
+  } = search;
+  const {
+    items: selectedItems,
+    add: addSelection,
+    remove: removeSelection,
+    exclude: excludeSelected,
+    handleKeyDown: handleSelectionKeyDown,
+  } = useSelection({ multiple, selected, onSelectionChange, getKey });
+  // Picked entities aren't offered again.
+  const results = useMemo(
+    () => excludeSelected(allResults),
+    [excludeSelected, allResults]
+  );
+  const {
+    history,
+    items: historyItems,
+    handleKeyDown: handleHistoryKeyDown,
+  } = useSearchHistory<T>(historyKey);
+  const isQueryEmpty = !query.trim();
+  const historyQueries = useMemo(
+    () =>
+      historyItems.flatMap((item) =>
+        item.kind === "query" ? [item.query] : []
+      ),
+    [historyItems]
+  );
+  const {
+    completion,
+    others: suggestions,
+    handleAcceptKey,
+  } = useQuerySuggestions({
+    query,
+    historyQueries,
+    cachedQueries: search.cachedQueries,
+    adapter: suggestionAdapter,
   });
 
+  // useState
+  const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+
   // ref's
   const inputRef = useRef<HTMLInputElement | null>(null);
   const dropdownRef = useRef<HTMLDivElement | null>(null);
-  const strategySelectorRef = useRef<HTMLDivElement | null>(null);
-  console.log("🚀 ~ strategySelectorRef:", strategySelectorRef);
+  const listRef = useRef<VirtualListHandle | null>(null);
 
-  const abortControllerRef = useRef<AbortController | null>(null);
-  const recentSearchesRef = useRef<Map<string, User[]>>(new Map());
-  const currentStrategyRef = useRef<SearchMode>(searchMode);
-
-  // useEffect's
-  useEffect(() => {
-    currentStrategyRef.current = searchMode;
-  }, [searchMode]);
-
-  useEffect(() => {
-    return () => {
-      abortControllerRef.current?.abort();
-    };
-  }, []);
   // useMemo's
-  const cache = useMemo(
-    () => createSearchCache<User>(cacheDuration, maxCacheSize),
-    [cacheDuration, maxCacheSize]
-  );
-
-  const rateLimiter = useMemo(
-    () => createRateLimiter(rateLimit, rateLimitWindow),
-    [rateLimit, rateLimitWindow]
+  const searchStrategyConfigs: StrategyMetadata[] = useMemo(
+    () => [AUTO_STRATEGY, ...search.strategies],
+    [search.strategies]
   );
 
-  const strategies = useMemo(
-    () => ({
-      instant: createInstantSearchStrategy(cache, rateLimiter),
-      balanced: createBalancedSearchStrategy(cache, rateLimiter),
-      conservative: createConservativeSearchStrategy(cache, rateLimiter),
-      manual: createManualSearchStrategy(cache),
-    }),
-    [cache, rateLimiter]
+  const strategyMenuItems: MenuButtonItem<SearchMode>[] = useMemo(
+    () =>
+      searchStrategyConfigs.map((strategy) => ({
+        key: strategy.id,
+        label: strategy.name,
+        description: strategy.recommendedFor,
+        icon: strategy.icon,
+      })),
+    [searchStrategyConfigs]
   );
 
-  const searchStrategyConfigs: SearchStrategy[] = useMemo(
-    () => [
-      {
-        id: "instant",
-        name: "Instant Search",
-        description: "Fastest results, highest API usage",
-        icon: <Zap className="w-4 h-4" />,
-        recommendedFor: "Internal apps, high rate limits",
-      },
-      {
-        id: "balanced",
-        name: "Balanced Mode",
-        description: "Smart caching + API fallback",
-        icon: <Smartphone className="w-4 h-4" />,
-        recommendedFor: "Most production applications",
-      },
-      {
-        id: "conservative",
-        name: "Conservative",
-        description: "Maximizes cache, minimizes API calls",
-        icon: <Shield className="w-4 h-4" />,
-        recommendedFor: "Strict rate limits, large user base",
-      },
-      {
-        id: "manual",
-        name: "Manual Search",
-        description: "Press Enter to search",
-        icon: <Search className="w-4 h-4" />,
-        recommendedFor: "Mobile users, limited APIs",
-      },
-    ],
-    []
-  );
+  // Search dropdown
+  const closeDropdown = useCallback(() => {
+    setIsDropdownOpen(false);
+    trackDismiss();
+  }, [trackDismiss]);
+  useClickOutside(dropdownRef, closeDropdown);
 
   //useCallback's
-  const buildApiUrl = useCallback(
-    (searchQuery: string): string => {
-      if (typeof apiEndpoint === "function") {
-        return apiEndpoint(searchQuery);
-      }
-      return `${apiEndpoint}?q=${encodeURIComponent(searchQuery)}`;
+  const handleInputChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const newQuery = e.target.value;
+      setQuery(newQuery);
+      setIsDropdownOpen(newQuery.trim().length > 0 || historyItems.length > 0);
     },
-    [apiEndpoint]
+    [setQuery, historyItems.length]
   );
 
-  const performApiSearch = useCallback(
-    async (searchQuery: string): Promise<User[]> => {
-      abortControllerRef.current?.abort();
-      abortControllerRef.current = new AbortController();
-
-      const url = buildApiUrl(searchQuery);
-
-      const response = await fetch(url, {
-        signal: abortControllerRef.current.signal,
-        headers: { "Content-Type": "application/json" },
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
-
-      const data: User[] = await response.json();
-
-      const filtered = data
-        .filter((user) => {
-          const lowerQuery = searchQuery.toLowerCase();
-          return searchFields.some((field) => {
-            const value = user[field];
-            if (typeof value === "string") {
-              return value.toLowerCase().includes(lowerQuery);
-            }
-            if (typeof value === "object" && value !== null) {
-              return Object.values(value).some(
-                (v) =>
-                  typeof v === "string" && v.toLowerCase().includes(lowerQuery)
-              );
-            }
-            return false;
-          });
-        })
-        .slice(0, maxResults);
-
-      return filtered;
-    },
-    [buildApiUrl, maxResults, searchFields]
+  const labelFor = useCallback(
+    (item: T) =>
+      getLabel?.(item) ?? getFieldText(item, toFieldAccessor(searchFields[0])),
+    [getLabel, searchFields]
   );
 
-  const performLocalSearch = useCallback(
-    (searchQuery: string): User[] => {
-      const lowerQuery = searchQuery.toLowerCase();
-      const resultsSet = new Set<User>();
-
-      for (const users of recentSearchesRef.current.values()) {
-        users.forEach((user) => {
-          const matches = searchFields.some((field) => {
-            const value = user[field];
-            if (typeof value === "string") {
-              return value.toLowerCase().includes(lowerQuery);
-            }
-            if (typeof value === "object" && value !== null) {
-              return Object.values(value).some(
-                (v) =>
-                  typeof v === "string" && v.toLowerCase().includes(lowerQuery)
-              );
-            }
-            return false;
-          });
-
-          if (matches) {
-            resultsSet.add(user);
-          }
-        });
-      }
-
-      return Array.from(resultsSet).slice(0, maxResults);
-    },
-    [maxResults, searchFields]
+  const renderRow = useCallback(
+    (item: T) =>
+      renderResult?.(item, { query, isUpdating: isRevalidating }) ?? (
+        <DefaultResultRow item={item} fields={searchFields} query={query} />
+      ),
+    [renderResult, searchFields, query, isRevalidating]
   );
 
-  const updateStats = useCallback((source: string) => {
-    setSearchStats((prev) => {
-      switch (source) {
-        case "api":
-          return { ...prev, apiCalls: prev.apiCalls + 1 };
-        case "cache":
-          return { ...prev, cacheHits: prev.cacheHits + 1 };
-        case "local":
-          return { ...prev, localSearches: prev.localSearches + 1 };
-        default:
-          return prev;
-      }
-    });
-  }, []);
-
-  const performSearch = useCallback(
-    async (searchQuery: string, currentMode: SearchMode): Promise<void> => {
-      const trimmedQuery = searchQuery.trim();
-
-      if (!trimmedQuery || trimmedQuery.length < minQueryLength) {
-        setApiResult((prev) => ({
-          ...prev,
-          error: null,
-          results: [],
-        }));
-        return;
-      }
-
-      setApiResult((prev) => ({
-        ...prev,
-        error: null,
-        isLoading: true,
-      }));
-
-      try {
-        const strategy = strategies[currentMode];
-        const result = await strategy.execute(
-          trimmedQuery,
-          performApiSearch,
-          performLocalSearch
-        );
-
-        if (currentStrategyRef.current !== currentMode) {
-          return;
-        }
-
-        setApiResult((prev) => ({
-          ...prev,
-          error: result.error || null,
-          results: result.data,
-        }));
-        updateStats(result.source);
-
-        if (result.data.length > 0) {
-          recentSearchesRef.current.set(trimmedQuery, result.data);
-          if (recentSearchesRef.current.size > 20) {
-            const firstKey = Array.from(recentSearchesRef.current.keys())[0];
-            if (firstKey) recentSearchesRef.current.delete(firstKey);
-          }
-        }
-
-        setApiResult((prev) => ({
-          ...prev,
-          isDropdownOpen: true,
-        }));
-      } catch (error) {
-        if (error instanceof Error && error.name !== "AbortError") {
-          setApiResult((prev) => ({
-            ...prev,
-            error: "An unexpected error occurred",
-          }));
-        }
-      } finally {
-        setApiResult((prev) => ({
-          ...prev,
-          isLoading: false,
-        }));
-      }
+  const handleSelect = useCallback(
+    (item: T) => {
+      trackSelection(results.indexOf(item) + 1, getKey(item));
+      history?.addQuery(query);
+      history?.addEntity(item, getKey(item), labelFor(item));
+      // A pick becomes a chip and the input is free for the next one.
+      if (multiple) addSelection(item);
+      setQuery(multiple ? "" : labelFor(item), { search: false });
+      setIsDropdownOpen(false);
+      onSelect?.(item);
     },
     [
-      minQueryLength,
-      strategies,
-      performApiSearch,
-      performLocalSearch,
-      updateStats,
+      trackSelection,
+      results,
+      history,
+      query,
+      getKey,
+      multiple,
+      addSelection,
+      setQuery,
+      labelFor,
+      onSelect,
     ]
   );
 
-  // custome-Hooks
-  const debouncedSearch = useDebounce(
-    (query: string, mode: SearchMode) => performSearch(query, mode),
-    debounceMs
+  const removeChip = useCallback(
+    (item: T) => {
+      removeSelection(item);
+      inputRef.current?.focus();
+    },
+    [removeSelection]
   );
-  const handleToggle = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    setShowStrategyMenu((p) => !p);
-  };
-  useClickOutside(dropdownRef, () => setShowStrategyMenu(false));
 
-  // Search dropdown
-  useClickOutside(dropdownRef, () =>
-    setApiResult((prev) => ({ ...prev, isDropdownOpen: false }))
-  );
-  const handleInputChange = useCallback(
-    (e: React.ChangeEvent<HTMLInputElement>) => {
-      const newQuery = e.target.value;
-      setQuery(newQuery);
-      setApiResult((prev) => ({
-        ...prev,
-        error: null,
-      }));
-
-      const trimmedQuery = newQuery.trim();
-
-      if (!trimmedQuery) {
-        setApiResult((prev) => ({
-          ...prev,
-          results: [],
-          isDropdownOpen: false,
-        }));
+  // A recent query searches again; a recent entity is selected outright.
+  const handleHistorySelect = useCallback(
+    (item: HistoryItem<T>) => {
+      if (item.kind === "query") {
+        history?.addQuery(item.query);
+        setQuery(item.query);
         return;
       }
+      history?.addEntity(item.entity, item.key, item.label);
+      if (multiple) addSelection(item.entity);
+      setQuery(multiple ? "" : item.label, { search: false });
+      setIsDropdownOpen(false);
+      onSelect?.(item.entity);
+    },
+    [history, multiple, addSelection, setQuery, onSelect]
+  );
 
-      if (searchMode === "manual") {
-        if (trimmedQuery.length >= minQueryLength) {
-          performSearch(trimmedQuery, searchMode);
-        } else {
-          setApiResult((prev) => ({
-            ...prev,
-            results: [],
-          }));
-        }
-        return;
-      }
+  const historyCombobox = useComboboxNavigation({
+    items: historyItems,
+    isOpen: isDropdownOpen && isQueryEmpty,
+    onOpen: () => setIsDropdownOpen(true),
+    onClose: () => setIsDropdownOpen(false),
+    onSelect: handleHistorySelect,
+  });
 
-      setApiResult((prev) => ({
-        ...prev,
-        isLoading: true,
-      }));
-      debouncedSearch(newQuery, searchMode);
+  const acceptSuggestion = useCallback(
+    (text: string) => {
+      setQuery(text);
+      setIsDropdownOpen(true);
     },
-    [searchMode, minQueryLength, performSearch, debouncedSearch]
+    [setQuery]
   );
-  const SearchDropdown = React.memo(
-    ({
-      results,
-      error,
-      onSelect,
-    }: {
-      results: User[];
-      error?: string;
-      onSelect: (user: User) => void;
-    }) => {
-      if (!results.length && !error) return null;
 
-      return (
-        <div className="absolute w-full mt-1 bg-white rounded-lg shadow-lg border border-gray-200 max-h-80 overflow-y-auto z-40">
-          {error && (
-            <div className="p-3 text-red-700 bg-red-50 flex items-start gap-2 border-b">
-              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
-              <span className="text-sm">{error}</span>
-            </div>
-          )}
-          {results.map((user) => (
-            <button
-              key={user.id}
-              onClick={() => onSelect(user)}
-              className="w-full px-3 py-2 text-left hover:bg-blue-50 border-b border-gray-100 last:border-b-0 transition-colors"
-            >
-              <div className="font-medium text-gray-900 truncate">
-                {user.name}
-              </div>
-              <div className="text-sm text-gray-600 truncate">{user.email}</div>
-              <div className="text-xs text-gray-500 truncate">
-                {user.company.name}
-              </div>
-            </button>
-          ))}
-        </div>
-      );
-    }
+  const { options, optionsListRef } = useResultOptions(
+    suggestions,
+    results,
+    listRef
   );
 
-  const handleSelect = useCallback(
-    (user: User) => {
-      setQuery(user.name);
-      setApiResult((prev) => ({
-        ...prev,
-        setIsDropdownOpen: false,
-        setResults: [],
-      }));
-
-      onUserSelect?.(user);
-    },
-    [onUserSelect]
+  const handleOptionSelect = useCallback(
+    (option: ResultOption<T>) =>
+      option.kind === "suggestion"
+        ? acceptSuggestion(option.suggestion.text)
+        : handleSelect(option.item),
+    [acceptSuggestion, handleSelect]
   );
 
-  const handleKeyDown = useCallback(
-    (e: React.KeyboardEvent<HTMLInputElement>) => {
-      if (e.key === "Escape") {
-        setApiResult((prev) => ({ ...prev, setIsDropdownOpen: false }));
+  const resultsCombobox = useComboboxNavigation({
+    items: options,
+    isOpen: isDropdownOpen && !isQueryEmpty,
+    pageSize: Math.max(1, Math.floor(DROPDOWN_MAX_HEIGHT / resultRowHeight)),
+    listRef: optionsListRef,
+    onOpen: () => setIsDropdownOpen(true),
+    onClose: closeDropdown,
+    onSelect: handleOptionSelect,
+  });
+  const suggestionsId = `${resultsCombobox.listboxId}-suggestions`;
+  const diagnosticsId = `${resultsCombobox.listboxId}-diagnostics`;
+  const { parsedQuery } = search;
 
-        inputRef.current?.blur();
-      } else if (e.key === "Enter") {
-        if (searchMode === "manual" && query.trim().length >= minQueryLength) {
-          setApiResult((prev) => ({ ...prev, isLoading: false }));
-          performApiSearch(query.trim())
-            .then((data) => {
-              rateLimiter.record();
-              cache.set(query.trim(), data);
+  // The input drives whichever list is showing.
+  const combobox = isQueryEmpty ? historyCombobox : resultsCombobox;
 
-              setApiResult((prev) => ({
-                ...prev,
-                results: data,
-                error: null,
-                isDropdownOpen: true,
-              }));
-              updateStats("api");
-            })
-            .catch((error) => {
-              if (error.name !== "AbortError") {
-                setApiResult((prev) => ({
-                  ...prev,
-                  error: "Search failed. Please try again.",
-                }));
-              }
-            })
-            .finally(() =>
-              setApiResult((prev) => ({
-                ...prev,
-                isLoading: false,
-              }))
-            );
-        } else if (apiResult.results.length > 0) {
-          handleSelect(apiResult.results[0]);
-        }
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (handleSelectionKeyDown(e)) return;
+      if (
+        isQueryEmpty &&
+        isDropdownOpen &&
+        handleHistoryKeyDown(e, historyCombobox.activeIndex)
+      ) {
+        return;
+      }
+      if (handleAcceptKey(e, acceptSuggestion)) return;
+      if (combobox.handleKeyDown(e)) return;
+
+      if (
+        e.key === "Enter" &&
+        activeMode === "manual" &&
+        query.trim().length >= minQueryLength
+      ) {
+        setIsDropdownOpen(true);
+        history?.addQuery(query);
+        submit();
       }
     },
     [
-      apiResult.results,
-      cache,
-      handleSelect,
-      minQueryLength,
-      performApiSearch,
+      handleSelectionKeyDown,
+      isQueryEmpty,
+      isDropdownOpen,
+      handleHistoryKeyDown,
+      historyCombobox.activeIndex,
+      handleAcceptKey,
+      acceptSuggestion,
+      combobox,
+      history,
+      submit,
+      activeMode,
       query,
-      rateLimiter,
-      searchMode,
-      updateStats,
+      minQueryLength,
     ]
   );
 
   const clearSearch = useCallback(() => {
-    setQuery("");
-    setApiResult((prev) => ({
-      ...prev,
-      results: [],
-      isLoading: false,
-      error: null,
-      isDropdownOpen: false,
-    }));
-    abortControllerRef.current?.abort();
-  }, []);
+    clear();
+    setIsDropdownOpen(false);
+  }, [clear]);
 
-  const handleStrategyChange = useCallback((mode: SearchMode) => {
-    abortControllerRef.current?.abort();
-    setSearchMode(mode);
-    setShowStrategyMenu(false);
-    setApiResult((prev) => ({
-      ...prev,
-      isLoading: false,
-    }));
-  }, []);
+  useEffect(() => {
+    if (sharedMode) setSearchMode(sharedMode);
+  }, [sharedMode, setSearchMode]);
+
+  // Registry-only strategies have no shared id; they stay local.
+  const handleStrategyChange = useCallback(
+    (mode: SearchMode) => {
+      setSearchMode(mode);
+      if (isSearchOptionKey(mode)) preferences?.setMode(mode);
+    },
+    [preferences, setSearchMode]
+  );
 
   // plain Fn's
   const currentStrategy = searchStrategyConfigs.find(
     (s) => s.id === searchMode
   );
 
+  const autoReason = searchMode === "auto" && (
+    <p className="text-sm text-gray-800 mt-2" aria-live="polite">
+      {search.autoDecision ? (
+        <>
+          Using{" "}
+          <span className="font-medium">
+            {
+              searchStrategyConfigs.find(
+                (s) => s.id === search.autoDecision?.mode
+              )?.name
+            }
+          </span>
+          : {search.autoDecision.reason}
+        </>
+      ) : (
+        "Choosing a strategy on the first search"
+      )}
+    </p>
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4 sm:p-8">
-      <div className="relative" ref={strategySelectorRef}>
-        <button
-          onClick={handleToggle}
-          className="flex items-center gap-2 px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors z-50"
-        >
-          <Settings className="w-4 h-4" />
-          {currentStrategy?.name}
-        </button>
-        {/* done with dropdown-menu */}
-        {showStrategyMenu && (
-          <div className=" mt-1 w-64 bg-white border border-gray-200 rounded-lg shadow-lg z-40">
-            {searchStrategyConfigs.map((strategy) => (
-              <button
-                key={strategy.id}
-                onClick={() => handleStrategyChange(strategy.id)}
-                className={`w-full text-left p-3 hover:bg-gray-50 first:rounded-t-lg last:rounded-b-lg transition-colors ${
-                  searchMode === strategy.id
-                    ? "bg-blue-50 border-l-4 border-blue-500"
-                    : ""
-                }`}
-              >
-                <div className="flex items-center gap-3">
-                  {strategy.icon}
-                  <div>
-                    <div className="font-medium text-gray-900">
-                      {strategy.name}
-                    </div>
-                    <div className="text-xs text-gray-500">
-                      {strategy.recommendedFor}
-                    </div>
-                  </div>
-                </div>
-              </button>
-            ))}
-          </div>
-        )}
-      </div>
+      <MenuButton<SearchMode>
+        items={strategyMenuItems}
+        value={searchMode}
+        onChange={handleStrategyChange}
+      >
+        <Settings className="w-4 h-4" />
+        {currentStrategy?.name}
+      </MenuButton>
       <div className="text-center mb-8">
         <h1 className="text-2xl sm:text-3xl font-bold text-gray-800 mb-2">
           Adaptive Search Component (Fixed)
@@ -935,33 +648,70 @@ const AdvancedSearchComponent = ({
           <p className="text-sm text-gray-600">
             {currentStrategy?.description}
           </p>
+          {autoReason}
         </div>
       )}
+      {/* Auto mode explains its pick even without the strategy panel. */}
+      {!showStrategySelector && autoReason && (
+        <div className="mb-6">{autoReason}</div>
+      )}
+
+      {search.localOnlyUntil !== null && (
+        <LocalOnlyBanner until={search.localOnlyUntil} />
+      )}
 
       <div className="relative" ref={dropdownRef}>
         <div className="relative">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5" />
-          <input
-            ref={inputRef}
-            type="text"
-            value={query}
-            onChange={handleInputChange}
-            onKeyDown={handleKeyDown}
-            onFocus={() =>
-              apiResult.results.length > 0 &&
-              setApiResult((prev) => ({
-                ...prev,
-                isDropdownOpen: true,
-              }))
-            }
-            placeholder={
-              searchMode === "manual"
-                ? "Type and press Enter to search..."
-                : "Search users by name, email, or company..."
-            }
-            className="w-full pl-10 pr-10 py-3 text-base border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200 shadow-sm transition-colors"
-            autoComplete="off"
-          />
+          <div
+            // The frame looks like the input; clicks on its padding or between
+            // chips should land in it too.
+            onClick={() => inputRef.current?.focus()}
+            className="flex flex-wrap items-center gap-1 pl-10 pr-10 border-2 border-gray-300 rounded-lg focus-within:border-blue-500 focus-within:ring-2 focus-within:ring-blue-200 shadow-sm transition-colors"
+          >
+            <SelectionChips
+              items={selectedItems}
+              getKey={getKey}
+              getLabel={labelFor}
+              onRemove={removeChip}
+            />
+            <div className="relative flex-1 min-w-32">
+              <QueryChips parsed={parsedQuery} className="py-3 text-base" />
+              <input
+                ref={inputRef}
+                type="text"
+                value={query}
+                onChange={handleInputChange}
+                onKeyDown={handleKeyDown}
+                onFocus={() =>
+                  (isQueryEmpty ? historyItems.length : results.length) > 0 &&
+                  setIsDropdownOpen(true)
+                }
+                {...combobox.inputProps}
+                aria-controls={
+                  !isQueryEmpty && suggestions.length > 0
+                    ? `${suggestionsId} ${combobox.listboxId}`
+                    : combobox.listboxId
+                }
+                aria-label={placeholder}
+                aria-describedby={
+                  parsedQuery.diagnostics.length > 0 ? diagnosticsId : undefined
+                }
+                placeholder={
+                  activeMode === "manual"
+                    ? "Type and press Enter to search..."
+                    : placeholder
+                }
+                className="relative w-full py-3 text-base bg-transparent focus:outline-none"
+                autoComplete="off"
+              />
+              <GhostText
+                query={query}
+                completion={completion?.text ?? null}
+                className="py-3 text-base"
+              />
+            </div>
+          </div>
           {query && (
             <button
               onClick={clearSearch}
@@ -971,30 +721,74 @@ const AdvancedSearchComponent = ({
               <X className="w-5 h-5" />
             </button>
           )}
+          {isLoading && (
+            <div className="absolute right-10 top-1/2 -translate-y-1/2">
+              <Loader2 className="w-5 h-5 text-blue-500 animate-spin" />
+            </div>
+          )}
         </div>
+        <QueryDiagnostics
+          id={diagnosticsId}
+          diagnostics={parsedQuery.diagnostics}
+        />
 
-        {apiResult.isLoading && (
-          <div className="absolute right-10 top-1/2 -translate-y-1/2">
-            <Loader2 className="w-5 h-5 text-blue-500 animate-spin" />
-          </div>
-        )}
-
-        {searchMode === "manual" &&
+        {activeMode === "manual" &&
           query.length >= minQueryLength &&
-          !apiResult.isLoading && (
+          !isLoading && (
             <div className="absolute left-0 right-0 top-full mt-1 text-xs text-gray-500 text-center">
               Press Enter to search API
             </div>
           )}
 
-        {apiResult.isDropdownOpen && (
+        {isDropdownOpen && isQueryEmpty && (
+          <SearchHistoryPanel
+            items={historyItems}
+            listboxId={historyCombobox.listboxId}
+            activeIndex={historyCombobox.activeIndex}
+            getOptionId={historyCombobox.getOptionId}
+            onSelect={handleHistorySelect}
+            onActivate={(index) => historyCombobox.setActiveIndex(index, false)}
+            onTogglePin={(item) => history?.togglePin(item.id)}
+            onRemove={(item) => history?.remove(item.id)}
+            onClearRecent={() => history?.clearRecent()}
+          />
+        )}
+
+        {isDropdownOpen && !isQueryEmpty && (
           <SearchDropdown
-            results={apiResult.results}
-            error={apiResult.error || undefined}
+            suggestions={suggestions}
+            suggestionsId={suggestionsId}
+            query={query}
+            onSelectSuggestion={(suggestion) =>
+              acceptSuggestion(suggestion.text)
+            }
+            results={results}
+            error={error || undefined}
+            retryAt={search.retryAt}
+            onRetry={() => setQuery(query)}
+            pageInfo={pageInfo}
+            isLoadingMore={isLoadingMore}
+            isUpdating={isRevalidating}
+            rowHeight={resultRowHeight}
+            listboxId={combobox.listboxId}
+            activeIndex={combobox.activeIndex}
+            getOptionId={combobox.getOptionId}
+            listRef={listRef}
+            getKey={getKey}
+            renderResult={renderRow}
             onSelect={handleSelect}
+            onActivate={(index) => combobox.setActiveIndex(index, false)}
+            onLoadMore={loadMore}
           />
         )}
 
+        <SearchStatusAnnouncer
+          count={results.length}
+          total={pageInfo?.total}
+          source={source}
+          isLoading={isLoading}
+        />
+
         {showStats && (
           <div className="mt-8 grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -1028,31 +822,124 @@ const AdvancedSearchComponent = ({
                 <div className="flex justify-between">
                   <span>API Calls:</span>
                   <span className="font-mono font-semibold">
-                    {searchStats.apiCalls}
+                    {stats.apiCalls}
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span>Cache Hits:</span>
                   <span className="font-mono font-semibold">
-                    {searchStats.cacheHits}
+                    {stats.cacheHits}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Fresh / Stale Hits:</span>
+                  <span className="font-mono font-semibold">
+                    {stats.freshHits} / {stats.staleHits}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Background Updates:</span>
+                  <span className="font-mono font-semibold">
+                    {stats.backgroundUpdates}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Shared Requests:</span>
+                  <span className="font-mono font-semibold">
+                    {stats.sharedRequests}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Retries:</span>
+                  <span className="font-mono font-semibold">
+                    {stats.retries}
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span>Local Searches:</span>
                   <span className="font-mono font-semibold">
-                    {searchStats.localSearches}
+                    {stats.localSearches}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Rate Limited:</span>
+                  <span className="font-mono font-semibold">
+                    {stats.rateLimited}
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span>Cache Size:</span>
                   <span className="font-mono font-semibold">
-                    {cache.size} queries
+                    {search.cacheSize} queries
+                    {maxCacheBytes !== undefined &&
+                      ` (${(search.cacheBytes / 1024).toFixed(1)} KB)`}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Cache Hit / Miss / Evicted:</span>
+                  <span className="font-mono font-semibold">
+                    {search.cacheStats.hits} / {search.cacheStats.misses} /{" "}
+                    {search.cacheStats.evictions}
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span>Rate Limit:</span>
                   <span className="font-mono font-semibold">
-                    {rateLimiter.remaining()}/{rateLimit}
+                    {search.rateLimitRemaining}/{rateLimit}
+                  </span>
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 md:col-span-2">
+              <h3 className="font-semibold text-gray-800 mb-3">
+                Search Analytics
+              </h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span>Latency p50 / p90 / p99:</span>
+                  <span className="font-mono font-semibold">
+                    {formatMs(analytics.latency.p50)} /{" "}
+                    {formatMs(analytics.latency.p90)} /{" "}
+                    {formatMs(analytics.latency.p99)}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Queries Issued:</span>
+                  <span className="font-mono font-semibold">
+                    {analytics.queries}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Click-through Rate:</span>
+                  <span className="font-mono font-semibold">
+                    {analytics.clickThroughRate === null
+                      ? "–"
+                      : `${Math.round(analytics.clickThroughRate * 100)}%`}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Mean Selected Rank:</span>
+                  <span className="font-mono font-semibold">
+                    {analytics.meanSelectionRank?.toFixed(1) ?? "–"}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Selected at Rank 1 / 2 / 3 / 4+:</span>
+                  <span className="font-mono font-semibold">
+                    {analytics.rankDistribution.join(" / ")}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Abandoned Queries:</span>
+                  <span className="font-mono font-semibold">
+                    {analytics.abandoned}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Errors / Rate Limited:</span>
+                  <span className="font-mono font-semibold">
+                    {analytics.errors} / {analytics.rateLimited}
                   </span>
                 </div>
               </div>
@@ -1081,16 +968,18 @@ const AdvancedSearchComponent = ({
           <h3 className="font-semibold text-blue-800 mb-2">Example Usage</h3>
           <pre className="text-xs bg-white p-3 rounded border border-blue-200 overflow-x-auto">
             {`// Basic usage
-<AdvancedSearchComponent 
+<AdvancedSearchComponent<User>
   apiEndpoint="https://api.example.com/users"
-  onUserSelect={(user) => console.log(user)}
+  getKey={(user) => user.id}
+  onSelect={(user) => console.log(user)}
 />
 
 // With custom endpoint function
-<AdvancedSearchComponent 
+<AdvancedSearchComponent<User>
   apiEndpoint={(query) => 
     \`https://api.example.com/search?term=\${query}&limit=20\`
   }
+  getKey={(user) => user.id}
   searchFields={["name", "email"]}
   maxCacheSize={100}
   rateLimitWindow={60000}
@@ -1103,4 +992,7 @@ const AdvancedSearchComponent = ({
   );
 };
 
-export default React.memo(AdvancedSearchComponent);
+// React.memo drops the type parameter; restore it for callers.
+export default React.memo(
+  AdvancedSearchComponent
+) as typeof AdvancedSearchComponent;
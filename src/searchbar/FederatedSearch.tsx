@@ -0,0 +1,165 @@
+import {
+  Fragment,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { Search, X } from "lucide-react";
+import useClickOutside from "../bank/hooks/useClickOutside";
+import useComboboxNavigation from "./hooks/useComboboxNavigation";
+import type { FederatedRow, FederatedSource } from "./federatedSource";
+
+interface FederatedSearchProps {
+  /**
+   * Searched in parallel; sections appear in this order. Keep the array
+   * stable (a module constant or memoized): each source owns a cache.
+   */
+  sources: FederatedSource[];
+  placeholder?: string;
+  minQueryLength?: number;
+  debounceMs?: number;
+}
+
+// Matches the other search dropdowns.
+const DROPDOWN_MAX_HEIGHT = 320;
+
+/**
+ * One input over several sources (clients, SKUs, users, ...). Results are
+ * grouped per source, and one keyboard model walks all the groups.
+ */
+const FederatedSearch = ({
+  sources,
+  placeholder = "Search...",
+  minQueryLength = 2,
+  debounceMs = 300,
+}: FederatedSearchProps) => {
+  // `text` is the input; `query` what the sections search. Picking a row
+  // writes its label into the input without searching for it.
+  const [text, setText] = useState("");
+  const [query, setQuery] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const [rowsBySource, setRowsBySource] = useState<
+    Record<string, FederatedRow[]>
+  >({});
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const handleRowsChange = useCallback(
+    (sourceId: string, rows: FederatedRow[]) =>
+      setRowsBySource((prev) =>
+        prev[sourceId] === rows ? prev : { ...prev, [sourceId]: rows }
+      ),
+    []
+  );
+
+  // Rows in display order, and where each source's rows start.
+  const { rows, offsets } = useMemo(() => {
+    const rows: FederatedRow[] = [];
+    const offsets: Record<string, number> = {};
+    for (const source of sources) {
+      offsets[source.id] = rows.length;
+      rows.push(...(rowsBySource[source.id] ?? []));
+    }
+    return { rows, offsets };
+  }, [sources, rowsBySource]);
+
+  const handlePicked = useCallback((label: string) => {
+    setText(label);
+    setIsOpen(false);
+  }, []);
+
+  const isSearchable = query.trim().length >= minQueryLength;
+  const isDropdownOpen = isOpen && isSearchable;
+
+  const combobox = useComboboxNavigation({
+    items: rows,
+    isOpen: isDropdownOpen,
+    onOpen: () => setIsOpen(true),
+    onClose: () => setIsOpen(false),
+    onSelect: (row) => row.select(),
+  });
+  const { activeIndex, getOptionId } = combobox;
+  useClickOutside(containerRef, () => setIsOpen(false));
+
+  // Sections aren't virtualized, so plain scrolling keeps the row visible.
+  useEffect(() => {
+    if (activeIndex < 0) return;
+    document
+      .getElementById(getOptionId(activeIndex))
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex, getOptionId]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setText(e.target.value);
+    setQuery(e.target.value);
+    setIsOpen(true);
+  };
+
+  const clearSearch = () => {
+    setText("");
+    setQuery("");
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <div className="relative">
+        <Search
+          className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5"
+          aria-hidden="true"
+        />
+        <input
+          type="text"
+          value={text}
+          onChange={handleInputChange}
+          onKeyDown={combobox.handleKeyDown}
+          onFocus={() => isSearchable && setIsOpen(true)}
+          {...combobox.inputProps}
+          aria-label={placeholder}
+          placeholder={placeholder}
+          className="w-full pl-10 pr-10 py-3 text-base border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200 shadow-sm transition-colors"
+          autoComplete="off"
+        />
+        {text && (
+          <button
+            type="button"
+            onClick={clearSearch}
+            className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Clear search"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      {/* Sections stay mounted while closed: each holds its own engine. */}
+      <div
+        id={combobox.listboxId}
+        role="listbox"
+        aria-label="Search results"
+        hidden={!isDropdownOpen}
+        style={{ maxHeight: DROPDOWN_MAX_HEIGHT }}
+        className="absolute w-full mt-1 bg-white rounded-lg shadow-lg border border-gray-200 overflow-y-auto z-40"
+      >
+        {sources.map((source) => (
+          <Fragment key={source.id}>
+            {source.renderSection({
+              query,
+              minQueryLength,
+              debounceMs,
+              offset: offsets[source.id],
+              activeIndex,
+              getOptionId,
+              onActivate: (index) => combobox.setActiveIndex(index, false),
+              onRowsChange: handleRowsChange,
+              onPicked: handlePicked,
+            })}
+          </Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FederatedSearch;
@@ -1,51 +1,142 @@
-import { useState, useRef, useEffect, useCallback } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { Search, X, Loader2, AlertCircle } from "lucide-react";
+import useAdaptiveSearch from "./hooks/useAdaptiveSearch";
+import DefaultResultRow from "./components/DefaultResultRow";
+import VirtualList, {
+  type VirtualListHandle,
+} from "../bank/features/virtual-list/VirtualList";
+import SearchStatusAnnouncer from "./components/SearchStatusAnnouncer";
+import RateLimitNotice from "./components/RateLimitNotice";
+import useComboboxNavigation from "./hooks/useComboboxNavigation";
+import useSearchHistory from "./hooks/useSearchHistory";
+import SearchHistoryPanel from "./components/SearchHistoryPanel";
+import useQuerySuggestions from "./hooks/useQuerySuggestions";
+import useResultOptions from "./hooks/useResultOptions";
+import GhostText from "./components/GhostText";
+import SelectionChips from "./components/SelectionChips";
+import useSelection from "./hooks/useSelection";
+import QueryChips from "./components/QueryChips";
+import QueryDiagnostics from "./components/QueryDiagnostics";
+import SuggestionGroup from "./components/SuggestionGroup";
+import { getFieldText, toFieldAccessor } from "./engine/fields";
+import type { ResultOption, SearchEntityProps } from "./types";
+import type { SearchAdapter } from "./adapters/types";
+import type { TelemetrySink } from "./engine/telemetry";
+import type { HistoryItem } from "./engine/searchHistory";
+import type { SuggestionAdapter } from "./adapters/suggestionAdapter";
 
 // Type definitions
-interface User {
-  id: number;
-  name: string;
-  email: string;
-  company: {
-    name: string;
-  };
-}
-
-interface SearchComponentProps {
+interface SearchComponentProps<T> extends SearchEntityProps<T> {
+  /** Search transport. Replaces `apiEndpoint` when given. */
+  adapter?: SearchAdapter<T>;
   apiEndpoint?: string;
   debounceMs?: number;
   minQueryLength?: number;
   maxResults?: number;
-  onUserSelect?: (user: User) => void;
+  placeholder?: string;
+  /** Singular noun used in headings and messages, e.g. "user" or "SKU". */
+  entityLabel?: string;
+  /** Fixed height of a result row in px; rows are virtualized. */
+  resultRowHeight?: number;
+  /** Receive query, latency, selection and abandonment events. */
+  telemetry?: TelemetrySink[];
+  /** Recent searches and favorites storage key; include the user id. */
+  historyKey?: string;
+  /** Server-side query completions, on top of history and cache. */
+  suggestionAdapter?: SuggestionAdapter;
 }
 
-interface CacheEntry {
-  data: User[];
-  timestamp: number;
-}
+// Matches the old `max-h-80` dropdown.
+const DROPDOWN_MAX_HEIGHT = 320;
 
-export default function SearchComponent({
+export default function SearchComponent<T>({
+  adapter,
   apiEndpoint = "https://jsonplaceholder.typicode.com/users",
   debounceMs = 300,
   minQueryLength = 2,
   maxResults = 50,
-  onUserSelect,
-}: SearchComponentProps) {
-  const [query, setQuery] = useState<string>("");
-  const [results, setResults] = useState<User[]>([]);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  placeholder = "Search...",
+  entityLabel = "result",
+  resultRowHeight = 72,
+  telemetry,
+  historyKey,
+  suggestionAdapter,
+  searchFields,
+  getKey,
+  getLabel,
+  renderResult,
+  onSelect,
+  multiple = false,
+  selected,
+  onSelectionChange,
+}: SearchComponentProps<T>) {
+  const search = useAdaptiveSearch<T>({
+    adapter,
+    apiEndpoint,
+    debounceMs,
+    minQueryLength,
+    maxResults,
+    defaultStrategy: "balanced",
+    telemetry,
+    searchFields,
+  });
+  const {
+    query,
+    parsedQuery,
+    setQuery,
+    clear,
+    results: allResults,
+    isLoading,
+    isRevalidating,
+    source,
+    trackSelection,
+    trackDismiss,
+  } = search;
+  const {
+    items: selectedItems,
+    add: addSelection,
+    remove: removeSelection,
+    exclude: excludeSelected,
+    handleKeyDown: handleSelectionKeyDown,
+  } = useSelection({ multiple, selected, onSelectionChange, getKey });
+  // Picked entities aren't offered again.
+  const results = useMemo(
+    () => excludeSelected(allResults),
+    [excludeSelected, allResults]
+  );
+  const {
+    history,
+    items: historyItems,
+    handleKeyDown: handleHistoryKeyDown,
+  } = useSearchHistory<T>(historyKey);
+  const isQueryEmpty = !query.trim();
+  const historyQueries = useMemo(
+    () =>
+      historyItems.flatMap((item) =>
+        item.kind === "query" ? [item.query] : []
+      ),
+    [historyItems]
+  );
+  const {
+    completion,
+    others: suggestions,
+    handleAcceptKey,
+  } = useQuerySuggestions({
+    query,
+    historyQueries,
+    cachedQueries: search.cachedQueries,
+    adapter: suggestionAdapter,
+  });
   const [isDropdownOpen, setIsDropdownOpen] = useState<boolean>(false);
 
-  // Refs for debounce and abort controller
-  const debounceTimer = useRef<number | null>(null);
-  const abortController = useRef<AbortController | null>(null);
-  const cache = useRef<Map<string, CacheEntry>>(new Map());
   const inputRef = useRef<HTMLInputElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<VirtualListHandle>(null);
 
-  // Cache configuration (5 minutes)
-  const CACHE_DURATION = 5 * 60 * 1000;
+  const closeDropdown = useCallback(() => {
+    setIsDropdownOpen(false);
+    trackDismiss();
+  }, [trackDismiss]);
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -56,201 +147,173 @@ export default function SearchComponent({
         inputRef.current &&
         !inputRef.current.contains(event.target as Node)
       ) {
-        setIsDropdownOpen(false);
+        closeDropdown();
       }
     };
 
     document.addEventListener("mousedown", handleClickOutside);
     return () => document.removeEventListener("mousedown", handleClickOutside);
-  }, []);
-
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (debounceTimer.current) {
-        clearTimeout(debounceTimer.current);
-      }
-      abortController.current?.abort();
-    };
-  }, []);
+  }, [closeDropdown]);
+
+  // Derive the user-facing message from the engine state
+  const trimmedQuery = query.trim();
+  let error: string | null = null;
+  if (trimmedQuery && trimmedQuery.length < minQueryLength) {
+    error = `Please enter at least ${minQueryLength} characters`;
+  } else if (search.error && results.length === 0) {
+    error = `Failed to search ${entityLabel}s. Please try again.`;
+  } else if (!isLoading && source && results.length === 0) {
+    error = `No ${entityLabel}s found matching your search`;
+  }
 
   const clearSearch = useCallback((): void => {
-    setQuery("");
-    setResults([]);
-    setError(null);
-    setIsLoading(false);
+    clear();
     setIsDropdownOpen(false);
-
-    if (debounceTimer.current) {
-      clearTimeout(debounceTimer.current);
-      debounceTimer.current = null;
-    }
-
-    abortController.current?.abort();
-  }, []);
-
-  const performSearch = useCallback(
-    async (searchQuery: string): Promise<void> => {
-      const trimmedQuery = searchQuery.trim();
-
-      // Handle empty input
-      if (!trimmedQuery) {
-        setResults([]);
-        setIsLoading(false);
-        setError(null);
-        setIsDropdownOpen(false);
-        return;
-      }
-
-      // Validate minimum query length
-      if (trimmedQuery.length < minQueryLength) {
-        setResults([]);
-        setIsLoading(false);
-        setError(`Please enter at least ${minQueryLength} characters`);
-        setIsDropdownOpen(true);
-        return;
-      }
-
-      // Check cache first (with expiration)
-      const cached = cache.current.get(trimmedQuery);
-      if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-        setResults(cached.data.slice(0, maxResults));
-        setIsLoading(false);
-        setError(null);
-        setIsDropdownOpen(true);
-        return;
-      }
-
-      // Abort previous request
-      abortController.current?.abort();
-
-      // Create new abort controller
-      abortController.current = new AbortController();
-
-      try {
-        setIsLoading(true);
-        setError(null);
-
-        const response = await fetch(
-          `${apiEndpoint}?q=${encodeURIComponent(trimmedQuery)}`,
-          {
-            signal: abortController.current.signal,
-            headers: {
-              "Content-Type": "application/json",
-            },
-          }
-        );
-
-        if (!response.ok) {
-          throw new Error(
-            `Search failed: ${response.status} ${response.statusText}`
-          );
-        }
-
-        const data: User[] = await response.json();
-
-        // Filter results client-side (since JSONPlaceholder doesn't support search well)
-        const filteredResults = data
-          .filter(
-            (user) =>
-              user.name.toLowerCase().includes(trimmedQuery.toLowerCase()) ||
-              user.email.toLowerCase().includes(trimmedQuery.toLowerCase()) ||
-              user.company.name
-                .toLowerCase()
-                .includes(trimmedQuery.toLowerCase())
-          )
-          .slice(0, maxResults);
-
-        // Cache the results
-        cache.current.set(trimmedQuery, {
-          data: filteredResults,
-          timestamp: Date.now(),
-        });
-
-        setResults(filteredResults);
-        setError(
-          filteredResults.length === 0
-            ? "No users found matching your search"
-            : null
-        );
-        setIsDropdownOpen(true);
-      } catch (err) {
-        // Don't show error for aborted requests
-        if (err instanceof Error && err.name === "AbortError") {
-          return;
-        }
-
-        console.error("Search error:", err);
-        setError("Failed to search users. Please try again.");
-        setResults([]);
-        setIsDropdownOpen(true);
-      } finally {
-        setIsLoading(false);
-      }
-    },
-    [apiEndpoint, minQueryLength, maxResults, CACHE_DURATION]
-  );
+  }, [clear]);
 
   const handleInputChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>): void => {
       const newQuery = e.target.value;
       setQuery(newQuery);
-      setError(null);
+      setIsDropdownOpen(newQuery.trim().length > 0 || historyItems.length > 0);
+    },
+    [setQuery, historyItems.length]
+  );
 
-      // Clear existing timer
-      if (debounceTimer.current) {
-        clearTimeout(debounceTimer.current);
-      }
+  const labelFor = useCallback(
+    (item: T): string =>
+      getLabel?.(item) ?? getFieldText(item, toFieldAccessor(searchFields[0])),
+    [getLabel, searchFields]
+  );
 
-      const trimmedQuery = newQuery.trim();
+  const handleSelect = useCallback(
+    (item: T): void => {
+      trackSelection(results.indexOf(item) + 1, getKey(item));
+      history?.addQuery(query);
+      history?.addEntity(item, getKey(item), labelFor(item));
+      // A pick becomes a chip and the input is free for the next one.
+      if (multiple) addSelection(item);
+      setQuery(multiple ? "" : labelFor(item), { search: false });
+      setIsDropdownOpen(false);
+      onSelect?.(item);
+    },
+    [
+      trackSelection,
+      results,
+      history,
+      query,
+      getKey,
+      multiple,
+      addSelection,
+      setQuery,
+      labelFor,
+      onSelect,
+    ]
+  );
 
-      // Handle empty query immediately
-      if (!trimmedQuery) {
-        clearSearch();
-        return;
-      }
+  const removeChip = useCallback(
+    (item: T): void => {
+      removeSelection(item);
+      inputRef.current?.focus();
+    },
+    [removeSelection]
+  );
 
-      // Show loading state only for valid queries after debounce
-      if (trimmedQuery.length >= minQueryLength) {
-        setIsLoading(true);
+  // A recent query searches again; a recent entity is selected outright.
+  const handleHistorySelect = useCallback(
+    (item: HistoryItem<T>): void => {
+      if (item.kind === "query") {
+        history?.addQuery(item.query);
+        setQuery(item.query);
+        return;
       }
-
-      // Debounce search
-      debounceTimer.current = setTimeout(() => {
-        performSearch(newQuery);
-      }, debounceMs);
+      history?.addEntity(item.entity, item.key, item.label);
+      if (multiple) addSelection(item.entity);
+      setQuery(multiple ? "" : item.label, { search: false });
+      setIsDropdownOpen(false);
+      onSelect?.(item.entity);
     },
-    [clearSearch, performSearch, debounceMs, minQueryLength]
+    [history, multiple, addSelection, setQuery, onSelect]
   );
 
-  const handleSelect = useCallback(
-    (user: User): void => {
-      console.log("Selected user:", user);
-      setQuery(user.name);
-      setResults([]);
-      setIsDropdownOpen(false);
-      onUserSelect?.(user);
+  const historyCombobox = useComboboxNavigation({
+    items: historyItems,
+    isOpen: isDropdownOpen && isQueryEmpty,
+    onOpen: () => setIsDropdownOpen(true),
+    onClose: () => setIsDropdownOpen(false),
+    onSelect: handleHistorySelect,
+  });
+
+  const acceptSuggestion = useCallback(
+    (text: string): void => {
+      setQuery(text);
+      setIsDropdownOpen(true);
     },
-    [onUserSelect]
+    [setQuery]
+  );
+
+  const { options, optionsListRef } = useResultOptions(
+    suggestions,
+    results,
+    listRef
   );
 
+  const handleOptionSelect = useCallback(
+    (option: ResultOption<T>): void =>
+      option.kind === "suggestion"
+        ? acceptSuggestion(option.suggestion.text)
+        : handleSelect(option.item),
+    [acceptSuggestion, handleSelect]
+  );
+
+  const resultsCombobox = useComboboxNavigation({
+    items: options,
+    isOpen: isDropdownOpen && !isQueryEmpty,
+    pageSize: Math.max(1, Math.floor(DROPDOWN_MAX_HEIGHT / resultRowHeight)),
+    listRef: optionsListRef,
+    onOpen: () => setIsDropdownOpen(true),
+    onClose: closeDropdown,
+    onSelect: handleOptionSelect,
+  });
+  const suggestionsId = `${resultsCombobox.listboxId}-suggestions`;
+  const diagnosticsId = `${resultsCombobox.listboxId}-diagnostics`;
+  // Result rows follow the suggestions in the option numbering.
+  const offset = suggestions.length;
+
+  // The input drives whichever list is showing.
+  const combobox = isQueryEmpty ? historyCombobox : resultsCombobox;
+
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent<HTMLInputElement>): void => {
-      if (e.key === "Escape") {
-        setIsDropdownOpen(false);
-        inputRef.current?.blur();
-      } else if (e.key === "Enter" && results.length > 0) {
-        handleSelect(results[0]);
+      if (handleSelectionKeyDown(e)) return;
+      if (
+        isQueryEmpty &&
+        isDropdownOpen &&
+        handleHistoryKeyDown(e, historyCombobox.activeIndex)
+      ) {
+        return;
       }
+      if (handleAcceptKey(e, acceptSuggestion)) return;
+      combobox.handleKeyDown(e);
     },
-    [results, handleSelect]
+    [
+      handleSelectionKeyDown,
+      isQueryEmpty,
+      isDropdownOpen,
+      handleHistoryKeyDown,
+      historyCombobox.activeIndex,
+      handleAcceptKey,
+      acceptSuggestion,
+      combobox,
+    ]
   );
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4 sm:p-8">
       <div className="max-w-2xl mx-auto">
         <h1 className="text-2xl sm:text-3xl font-bold text-gray-800 mb-6 text-center">
-          Professional User Search
+          Professional{" "}
+          {entityLabel.charAt(0).toUpperCase() + entityLabel.slice(1)} Search
         </h1>
 
         {/* Search Input */}
@@ -260,20 +323,53 @@ export default function SearchComponent({
               className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5"
               aria-hidden="true"
             />
-            <input
-              ref={inputRef}
-              type="text"
-              value={query}
-              onChange={handleInputChange}
-              onKeyDown={handleKeyDown}
-              onFocus={() => results.length > 0 && setIsDropdownOpen(true)}
-              placeholder="Search users by name, email, or company..."
-              className="w-full pl-10 pr-10 py-3 text-base border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200 shadow-sm transition-colors"
-              autoComplete="off"
-              aria-label="Search users"
-              aria-controls="search-results"
-              aria-expanded={isDropdownOpen}
-            />
+            <div
+              // The frame looks like the input; clicks on its padding or between
+              // chips should land in it too.
+              onClick={() => inputRef.current?.focus()}
+              className="flex flex-wrap items-center gap-1 pl-10 pr-10 border-2 border-gray-300 rounded-lg focus-within:border-blue-500 focus-within:ring-2 focus-within:ring-blue-200 shadow-sm transition-colors"
+            >
+              <SelectionChips
+                items={selectedItems}
+                getKey={getKey}
+                getLabel={labelFor}
+                onRemove={removeChip}
+              />
+              <div className="relative flex-1 min-w-32">
+                <QueryChips parsed={parsedQuery} className="py-3 text-base" />
+                <input
+                  ref={inputRef}
+                  type="text"
+                  value={query}
+                  onChange={handleInputChange}
+                  onKeyDown={handleKeyDown}
+                  onFocus={() =>
+                    (isQueryEmpty ? historyItems.length : results.length) > 0 &&
+                    setIsDropdownOpen(true)
+                  }
+                  placeholder={placeholder}
+                  className="relative w-full py-3 text-base bg-transparent focus:outline-none"
+                  autoComplete="off"
+                  aria-label={`Search ${entityLabel}s`}
+                  aria-describedby={
+                    parsedQuery.diagnostics.length > 0
+                      ? diagnosticsId
+                      : undefined
+                  }
+                  {...combobox.inputProps}
+                  aria-controls={
+                    !isQueryEmpty && suggestions.length > 0
+                      ? `${suggestionsId} ${combobox.listboxId}`
+                      : combobox.listboxId
+                  }
+                />
+                <GhostText
+                  query={query}
+                  completion={completion?.text ?? null}
+                  className="py-3 text-base"
+                />
+              </div>
+            </div>
             {query && (
               <button
                 onClick={clearSearch}
@@ -284,61 +380,138 @@ export default function SearchComponent({
                 <X className="w-5 h-5" />
               </button>
             )}
-          </div>
 
-          {/* Loading Indicator */}
-          {isLoading && (
-            <div className="absolute right-10 top-1/2 -translate-y-1/2">
-              <Loader2
-                className="w-5 h-5 text-blue-500 animate-spin"
-                aria-hidden="true"
-              />
-            </div>
+            {/* Loading Indicator */}
+            {isLoading && (
+              <div className="absolute right-10 top-1/2 -translate-y-1/2">
+                <Loader2
+                  className="w-5 h-5 text-blue-500 animate-spin"
+                  aria-hidden="true"
+                />
+              </div>
+            )}
+          </div>
+          <QueryDiagnostics
+            id={diagnosticsId}
+            diagnostics={parsedQuery.diagnostics}
+          />
+
+          {/* Recent Searches */}
+          {isDropdownOpen && isQueryEmpty && (
+            <SearchHistoryPanel
+              items={historyItems}
+              listboxId={historyCombobox.listboxId}
+              activeIndex={historyCombobox.activeIndex}
+              getOptionId={historyCombobox.getOptionId}
+              onSelect={handleHistorySelect}
+              onActivate={(index) =>
+                historyCombobox.setActiveIndex(index, false)
+              }
+              onTogglePin={(item) => history?.togglePin(item.id)}
+              onRemove={(item) => history?.remove(item.id)}
+              onClearRecent={() => history?.clearRecent()}
+            />
           )}
 
           {/* Results Dropdown */}
-          {isDropdownOpen && (results.length > 0 || error) && (
-            <div
-              id="search-results"
-              className="absolute w-full mt-1 bg-white rounded-lg shadow-lg border border-gray-200 max-h-80 overflow-y-auto z-50"
-              role="listbox"
-            >
-              {error ? (
-                <div
-                  className="p-3 text-red-700 bg-red-50 flex items-start gap-2"
-                  role="alert"
-                >
-                  <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
-                  <span className="text-sm">{error}</span>
-                </div>
-              ) : (
-                <>
-                  <div className="p-2 text-xs text-gray-500 border-b bg-gray-50">
-                    {results.length} user{results.length !== 1 ? "s" : ""} found
+          {isDropdownOpen &&
+            !isQueryEmpty &&
+            (suggestions.length > 0 || results.length > 0 || error) && (
+              <div className="absolute w-full mt-1 bg-white rounded-lg shadow-lg border border-gray-200 overflow-hidden z-50">
+                <SuggestionGroup
+                  id={suggestionsId}
+                  suggestions={suggestions}
+                  query={query}
+                  getOptionId={combobox.getOptionId}
+                  activeIndex={combobox.activeIndex}
+                  onSelect={(suggestion) => acceptSuggestion(suggestion.text)}
+                  onActivate={(index) => combobox.setActiveIndex(index, false)}
+                />
+                {search.retryAt !== null && results.length === 0 ? (
+                  <RateLimitNotice
+                    retryAt={search.retryAt}
+                    onExpire={() => setQuery(query)}
+                  />
+                ) : error ? (
+                  <div
+                    className="p-3 text-red-700 bg-red-50 flex items-start gap-2"
+                    role="alert"
+                  >
+                    <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <span className="text-sm">{error}</span>
                   </div>
-                  {results.map((user) => (
-                    <button
-                      key={user.id}
-                      onClick={() => handleSelect(user)}
-                      className="w-full px-3 py-2 text-left hover:bg-blue-50 border-b border-gray-100 last:border-b-0 transition-colors focus:bg-blue-50 focus:outline-none"
-                      role="option"
-                      aria-selected="false"
-                    >
-                      <div className="font-medium text-gray-900 truncate">
-                        {user.name}
-                      </div>
-                      <div className="text-sm text-gray-600 truncate">
-                        {user.email}
-                      </div>
-                      <div className="text-xs text-gray-500 truncate">
-                        {user.company.name}
-                      </div>
-                    </button>
-                  ))}
-                </>
-              )}
-            </div>
-          )}
+                ) : (
+                  <>
+                    <div className="p-2 text-xs text-gray-500 border-b bg-gray-50 flex justify-between">
+                      <span>
+                        {results.length} {entityLabel}
+                        {results.length !== 1 ? "s" : ""} found
+                      </span>
+                      {isRevalidating && (
+                        <span className="flex items-center gap-1 text-blue-600">
+                          <Loader2
+                            className="w-3 h-3 animate-spin"
+                            aria-hidden="true"
+                          />
+                          Updating…
+                        </span>
+                      )}
+                    </div>
+                    <VirtualList
+                      ref={listRef}
+                      id={combobox.listboxId}
+                      role="listbox"
+                      aria-label={`${entityLabel} results`}
+                      items={results}
+                      rowHeight={resultRowHeight}
+                      maxHeight={DROPDOWN_MAX_HEIGHT}
+                      getKey={(item) => getKey(item)}
+                      renderItem={(item, index) => (
+                        <div
+                          id={combobox.getOptionId(offset + index)}
+                          role="option"
+                          aria-selected={
+                            offset + index === combobox.activeIndex
+                          }
+                          aria-setsize={results.length}
+                          aria-posinset={index + 1}
+                          aria-busy={isRevalidating || undefined}
+                          data-updating={isRevalidating || undefined}
+                          onMouseDown={(e) => e.preventDefault()}
+                          onClick={() => handleSelect(item)}
+                          onMouseEnter={() =>
+                            combobox.setActiveIndex(offset + index, false)
+                          }
+                          className={`w-full h-full px-3 py-2 text-left cursor-pointer border-b border-gray-100 transition-colors ${
+                            offset + index === combobox.activeIndex
+                              ? "bg-blue-50"
+                              : ""
+                          } ${isRevalidating ? "opacity-60" : ""}`}
+                        >
+                          {renderResult?.(item, {
+                            query,
+                            isUpdating: isRevalidating,
+                          }) ?? (
+                            <DefaultResultRow
+                              item={item}
+                              fields={searchFields}
+                              query={query}
+                            />
+                          )}
+                        </div>
+                      )}
+                    />
+                  </>
+                )}
+              </div>
+            )}
+
+          <SearchStatusAnnouncer
+            count={results.length}
+            total={search.pageInfo?.total}
+            source={source}
+            isLoading={isLoading}
+          />
         </div>
 
         {/* Features & Info */}
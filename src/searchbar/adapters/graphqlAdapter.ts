@@ -0,0 +1,107 @@
+import { getPathValue } from "../engine/fields";
+import {
+  HttpError,
+  jsonHeaders,
+  parseTotal,
+  resolveHasMore,
+  type HeadersOption,
+  type SearchAdapter,
+  type SearchRequest,
+} from "./types";
+
+export interface GraphQLAdapterOptions<T> {
+  endpoint: string;
+  /** The query document, e.g. `query Search($q: String!) { ... }`. */
+  document: string;
+  operationName?: string;
+  /**
+   * Maps the request to GraphQL variables.
+   * Defaults to `{ q, limit, page, cursor }`.
+   */
+  variables?: (
+    request: Omit<SearchRequest, "signal">
+  ) => Record<string, unknown>;
+  /** Where the rows live under `data`, e.g. `"clients.items"`. */
+  responsePath: string;
+  /** Where the total lives under `data`, e.g. `"clients.total"`. */
+  totalPath?: string;
+  /** Where the next cursor lives under `data`. */
+  nextCursorPath?: string;
+  headers?: HeadersOption;
+  mapItem?: (raw: unknown) => T;
+  serverFiltered?: boolean;
+  /** Cache namespace. Defaults to the endpoint plus operation. */
+  id?: string;
+}
+
+interface GraphQLPayload {
+  data?: unknown;
+  errors?: { message: string }[];
+}
+
+export const createGraphQLAdapter = <T>({
+  endpoint,
+  document,
+  operationName,
+  variables = ({ query, limit, page, cursor }) => ({
+    q: query,
+    limit,
+    page,
+    cursor,
+  }),
+  responsePath,
+  totalPath,
+  nextCursorPath,
+  headers,
+  mapItem,
+  serverFiltered = true,
+  id = `${endpoint}#${operationName ?? responsePath}`,
+}: GraphQLAdapterOptions<T>): SearchAdapter<T> => ({
+  id,
+  serverFiltered,
+  search: async ({ signal, ...request }) => {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      signal,
+      headers: jsonHeaders(headers),
+      body: JSON.stringify({
+        query: document,
+        operationName,
+        variables: variables(request),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new HttpError(response);
+    }
+
+    const payload: GraphQLPayload = await response.json();
+    if (payload.errors?.length) {
+      throw new Error(payload.errors[0].message);
+    }
+
+    const rows = getPathValue(payload.data, responsePath);
+    if (!Array.isArray(rows)) {
+      throw new Error(`Expected an array at "data.${responsePath}"`);
+    }
+
+    const items = mapItem ? rows.map(mapItem) : (rows as T[]);
+    const total = totalPath
+      ? parseTotal(getPathValue(payload.data, totalPath))
+      : undefined;
+    const nextCursor = nextCursorPath
+      ? ((getPathValue(payload.data, nextCursorPath) as string | null) ?? null)
+      : undefined;
+
+    return {
+      items,
+      total,
+      nextCursor,
+      hasMore:
+        totalPath || nextCursorPath
+          ? resolveHasMore(request, items.length, total, nextCursor)
+          : undefined,
+      headers: response.headers,
+    };
+  },
+});
@@ -0,0 +1,56 @@
+import type { SearchField } from "../engine/fields";
+import { matchesQuery } from "../engine/matching";
+import { toQueryAst } from "../engine/ranking";
+import type { SearchAdapter } from "./types";
+
+export interface MemoryAdapterOptions<T> {
+  data: T[] | (() => T[]);
+  searchFields: SearchField<T>[];
+  /** Simulated round-trip, useful for exercising loading states offline. */
+  latencyMs?: number;
+  /** Also return near-misses (typos) above this similarity. */
+  fuzzyThreshold?: number;
+  /** Cache namespace; in-memory data is only worth persisting if named. */
+  id?: string;
+}
+
+const abortError = () => new DOMException("Aborted", "AbortError");
+
+/** Searches a local dataset. No network, so it also works in tests. */
+export const createMemoryAdapter = <T>({
+  data,
+  searchFields,
+  latencyMs = 0,
+  fuzzyThreshold,
+  id,
+}: MemoryAdapterOptions<T>): SearchAdapter<T> => ({
+  id,
+  serverFiltered: true,
+  search: ({ query, ast, limit, page = 1, signal }) =>
+    new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(abortError());
+
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        const rows = typeof data === "function" ? data() : data;
+        const parsed = ast ?? toQueryAst(query, searchFields);
+        const items = rows.filter((item) =>
+          matchesQuery(item, searchFields, parsed, { fuzzyThreshold })
+        );
+        if (!limit) return resolve({ items, total: items.length });
+
+        const start = (page - 1) * limit;
+        resolve({
+          items: items.slice(start, start + limit),
+          total: items.length,
+          hasMore: start + limit < items.length,
+        });
+      }, latencyMs);
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+    }),
+});
@@ -0,0 +1,160 @@
+import { getPathValue } from "../engine/fields";
+import {
+  formatQuery,
+  type QueryAst,
+  type QueryTerm,
+} from "../engine/queryParser";
+import {
+  HttpError,
+  jsonHeaders,
+  parseTotal,
+  resolveHasMore,
+  type HeadersOption,
+  type SearchAdapter,
+  type SearchRequest,
+} from "./types";
+
+export interface RestAdapterOptions<T> {
+  /** Base URL, or a function that builds the full URL for a query. */
+  endpoint: string | ((query: string) => string);
+  /** Query-string name for the search term. Defaults to `q`. */
+  queryParam?: string;
+  /** Query-string name for the page size. Omitted when unset. */
+  limitParam?: string;
+  /** Query-string name for the 1-based page index (page pagination). */
+  pageParam?: string;
+  /** Query-string name for the cursor (cursor pagination). */
+  cursorParam?: string;
+  /** Extra static query-string values. */
+  params?: Record<string, string>;
+  /**
+   * Sends `field:value` qualifiers as query-string values of their own,
+   * e.g. `{ email: "email_like" }`. Only used for queries without `OR`;
+   * everything else stays in `queryParam`.
+   */
+  fieldParams?: Record<string, string>;
+  headers?: HeadersOption;
+  /** Where the rows live in the payload, e.g. `"data.items"`. */
+  responsePath?: string;
+  /** Where the total lives, e.g. `"data.pagination.total"`. */
+  totalPath?: string;
+  /** Where the next cursor lives, e.g. `"data.nextCursor"`. */
+  nextCursorPath?: string;
+  mapItem?: (raw: unknown) => T;
+  serverFiltered?: boolean;
+  /** Cache namespace. Defaults to `endpoint` when it is a string. */
+  id?: string;
+}
+
+/**
+ * Lifts the qualifiers `fieldParams` maps out of a single-clause query.
+ * Exclusions and repeated fields stay in the text for the server to parse.
+ */
+const splitFieldParams = (
+  ast: QueryAst,
+  fieldParams: Record<string, string>
+): { text: string; values: Record<string, string> } | null => {
+  if (ast.clauses.length !== 1) return null;
+
+  const params = new Map(
+    Object.entries(fieldParams).map(([field, param]) => [
+      field.toLowerCase(),
+      param,
+    ])
+  );
+  const values: Record<string, string> = {};
+  const rest: QueryTerm[] = [];
+  for (const term of ast.clauses[0]) {
+    const param = term.field && params.get(term.field.toLowerCase());
+    if (param && !term.negated && !(param in values)) {
+      values[param] = term.value;
+    } else {
+      rest.push(term);
+    }
+  }
+  return { text: formatQuery([rest]), values };
+};
+
+export const createRestAdapter = <T>({
+  endpoint,
+  queryParam = "q",
+  limitParam,
+  pageParam,
+  cursorParam,
+  params,
+  fieldParams,
+  headers,
+  responsePath,
+  totalPath,
+  nextCursorPath,
+  mapItem,
+  serverFiltered = false,
+  id = typeof endpoint === "string" ? endpoint : undefined,
+}: RestAdapterOptions<T>): SearchAdapter<T> => {
+  const buildUrl = ({
+    query,
+    ast,
+    limit,
+    page,
+    cursor,
+  }: SearchRequest): string => {
+    const url = new URL(
+      typeof endpoint === "function" ? endpoint(query) : endpoint,
+      window.location.origin
+    );
+    const split = ast && fieldParams && splitFieldParams(ast, fieldParams);
+    Object.entries({ ...params, ...split?.values }).forEach(([key, value]) =>
+      url.searchParams.set(key, value)
+    );
+    const text = split ? split.text : query;
+    if (typeof endpoint === "string" && (text || !split)) {
+      url.searchParams.set(queryParam, text);
+    }
+    if (limitParam && limit) url.searchParams.set(limitParam, String(limit));
+    if (pageParam && page) url.searchParams.set(pageParam, String(page));
+    if (cursorParam && cursor) url.searchParams.set(cursorParam, cursor);
+    return url.toString();
+  };
+
+  return {
+    id,
+    serverFiltered,
+    search: async (request) => {
+      const response = await fetch(buildUrl(request), {
+        signal: request.signal,
+        headers: jsonHeaders(headers),
+      });
+
+      if (!response.ok) {
+        throw new HttpError(response);
+      }
+
+      const payload: unknown = await response.json();
+      const rows = responsePath ? getPathValue(payload, responsePath) : payload;
+      if (!Array.isArray(rows)) {
+        throw new Error(
+          `Expected an array at "${responsePath ?? "(root)"}" in the response`
+        );
+      }
+
+      const items = mapItem ? rows.map(mapItem) : (rows as T[]);
+      const total = totalPath
+        ? parseTotal(getPathValue(payload, totalPath))
+        : undefined;
+      const nextCursor = nextCursorPath
+        ? ((getPathValue(payload, nextCursorPath) as string | null) ?? null)
+        : undefined;
+
+      return {
+        items,
+        total,
+        nextCursor,
+        hasMore:
+          pageParam || cursorParam
+            ? resolveHasMore(request, items.length, total, nextCursor)
+            : undefined,
+        headers: response.headers,
+      };
+    },
+  };
+};
@@ -0,0 +1,49 @@
+import { getPathValue } from "../engine/fields";
+import { HttpError, resolveHeaders, type HeadersOption } from "./types";
+
+/** Transport for server-side query completions. */
+export interface SuggestionAdapter {
+  suggest: (query: string, signal?: AbortSignal) => Promise<string[]>;
+}
+
+export interface RestSuggestionAdapterOptions {
+  /** Base URL, or a function that builds the full URL for a query. */
+  endpoint: string | ((query: string) => string);
+  /** Query-string name for the partial query. Defaults to `q`. */
+  queryParam?: string;
+  headers?: HeadersOption;
+  /** Where the suggestions live in the payload, e.g. `"data.terms"`. */
+  responsePath?: string;
+  /** Turns one raw entry into its text. Defaults to plain strings. */
+  mapItem?: (raw: unknown) => string;
+}
+
+export const createRestSuggestionAdapter = ({
+  endpoint,
+  queryParam = "q",
+  headers,
+  responsePath,
+  mapItem = String,
+}: RestSuggestionAdapterOptions): SuggestionAdapter => ({
+  suggest: async (query, signal) => {
+    const url = new URL(
+      typeof endpoint === "function" ? endpoint(query) : endpoint,
+      window.location.origin
+    );
+    if (typeof endpoint === "string") url.searchParams.set(queryParam, query);
+
+    const response = await fetch(url.toString(), {
+      signal,
+      headers: resolveHeaders(headers),
+    });
+    if (!response.ok) {
+      throw new HttpError(response);
+    }
+
+    const payload: unknown = await response.json();
+    const entries = responsePath
+      ? getPathValue(payload, responsePath)
+      : payload;
+    return Array.isArray(entries) ? entries.map(mapItem) : [];
+  },
+});
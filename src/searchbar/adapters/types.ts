@@ -0,0 +1,104 @@
+import type { QueryAst } from "../engine/queryParser";
+
+// ============================================================================
+// SEARCH ADAPTER CONTRACT
+// ============================================================================
+
+export interface SearchRequest {
+  query: string;
+  /**
+   * `query` parsed against the engine's search fields, for backends that
+   * take qualifiers, phrases or exclusions separately.
+   */
+  ast?: QueryAst;
+  /** Page size the caller will display; adapters may ignore it. */
+  limit?: number;
+  /** 1-based page index for page-numbered backends. */
+  page?: number;
+  /** Opaque cursor from the previous response, for cursor backends. */
+  cursor?: string;
+  signal?: AbortSignal;
+}
+
+export interface SearchResponse<T> {
+  items: T[];
+  /** Total matches on the server, when it reports one. */
+  total?: number;
+  nextCursor?: string | null;
+  /** Whether another page exists. Unset means the response is complete. */
+  hasMore?: boolean;
+  /** Raw response headers, read for `X-RateLimit-*` accounting. */
+  headers?: Headers;
+}
+
+/** Non-OK HTTP response, kept whole so callers can honour `Retry-After`. */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly headers: Headers;
+
+  constructor(response: Response) {
+    super(`HTTP ${response.status}`);
+    this.name = "HttpError";
+    this.status = response.status;
+    this.headers = response.headers;
+  }
+}
+
+/**
+ * Transport behind the search engine. An adapter turns a query into rows;
+ * caching, rate limiting and strategy choice stay in the engine.
+ */
+export interface SearchAdapter<T> {
+  search: (request: SearchRequest) => Promise<SearchResponse<T>>;
+  /**
+   * True when `search` already returns only matching rows. Otherwise the
+   * engine re-filters the response on `searchFields`.
+   */
+  serverFiltered?: boolean;
+  /**
+   * Stable name for the backing endpoint. Persisted caches are namespaced
+   * by it, so two adapters must not share an id unless they return the
+   * same rows.
+   */
+  id?: string;
+}
+
+export type HeadersOption = HeadersInit | (() => HeadersInit);
+
+export const resolveHeaders = (headers?: HeadersOption): HeadersInit =>
+  typeof headers === "function" ? headers() : (headers ?? {});
+
+/**
+ * `headers` as a `Headers` object with a JSON content type unless the caller
+ * set one. Spreading would drop `Headers` instances and mangle tuple arrays.
+ */
+export const jsonHeaders = (headers?: HeadersOption): Headers => {
+  const resolved = new Headers(resolveHeaders(headers));
+  if (!resolved.has("Content-Type")) {
+    resolved.set("Content-Type", "application/json");
+  }
+  return resolved;
+};
+
+/** Reads a reported total count; 0 is a count, a missing value is unknown. */
+export const parseTotal = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === "") return undefined;
+  const total = Number(value);
+  return Number.isFinite(total) ? total : undefined;
+};
+
+/**
+ * Infers `hasMore` for a paged request from whatever the backend reported:
+ * a cursor wins, then a total, then whether the page came back full.
+ */
+export const resolveHasMore = (
+  { limit, page = 1 }: SearchRequest,
+  received: number,
+  total?: number,
+  nextCursor?: string | null
+): boolean => {
+  if (nextCursor !== undefined) return nextCursor !== null;
+  if (!limit) return false;
+  if (total !== undefined) return page * limit < total;
+  return received >= limit;
+};
@@ -0,0 +1,67 @@
+import { Search, Shield, Smartphone, Sparkles, Zap } from "lucide-react";
+import {
+  createBalancedSearchStrategy,
+  createConservativeSearchStrategy,
+  createInstantSearchStrategy,
+  createManualSearchStrategy,
+} from "./engine/strategies";
+import type {
+  StrategyDefinition,
+  StrategyMetadata,
+} from "./engine/strategyRegistry";
+
+// ============================================================================
+// BUILT-IN STRATEGY DEFINITIONS
+// ============================================================================
+
+/** Selector entry for auto mode; it has no executor of its own. */
+export const AUTO_STRATEGY: StrategyMetadata = {
+  id: "auto",
+  name: "Auto (Adaptive)",
+  description:
+    "Picks a strategy per search from latency, rate limit, cache hits, typing speed and connection",
+  icon: <Sparkles className="w-4 h-4" />,
+  recommendedFor: "Unknown or changing conditions",
+};
+
+/** The four built-in strategies, in selector order. */
+export const builtinStrategies = <T,>(): StrategyDefinition<T>[] => [
+  {
+    id: "instant",
+    name: "Instant Search",
+    description: "Fastest results, highest API usage",
+    icon: <Zap className="w-4 h-4" />,
+    recommendedFor: "Internal apps, high rate limits",
+    create: ({ cache, rateLimiter }) =>
+      createInstantSearchStrategy(cache, rateLimiter),
+  },
+  {
+    id: "balanced",
+    name: "Balanced Mode",
+    description: "Cached results first, refreshed in the background",
+    icon: <Smartphone className="w-4 h-4" />,
+    recommendedFor: "Most production applications",
+    create: ({ cache, rateLimiter, staleWhileRevalidate, staleTime }) =>
+      createBalancedSearchStrategy(cache, rateLimiter, {
+        staleWhileRevalidate,
+        staleTime,
+      }),
+  },
+  {
+    id: "conservative",
+    name: "Conservative",
+    description: "Maximizes cache, minimizes API calls",
+    icon: <Shield className="w-4 h-4" />,
+    recommendedFor: "Strict rate limits, large user base",
+    create: ({ cache, rateLimiter }) =>
+      createConservativeSearchStrategy(cache, rateLimiter),
+  },
+  {
+    id: "manual",
+    name: "Manual Search",
+    description: "Press Enter to search",
+    icon: <Search className="w-4 h-4" />,
+    recommendedFor: "Mobile users, limited APIs",
+    create: ({ cache }) => createManualSearchStrategy(cache),
+  },
+];
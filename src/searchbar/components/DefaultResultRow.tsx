@@ -0,0 +1,39 @@
+import {
+  getFieldText,
+  toFieldAccessor,
+  type SearchField,
+} from "../engine/fields";
+import Highlight from "./Highlight";
+
+const lineClassNames = [
+  "font-medium text-gray-900 truncate",
+  "text-sm text-gray-600 truncate",
+  "text-xs text-gray-500 truncate",
+];
+
+interface DefaultResultRowProps<T> {
+  item: T;
+  fields: SearchField<T>[];
+  /** Highlighted in every line when set. */
+  query?: string;
+}
+
+// One line per field: the first is the title, the rest get smaller.
+const DefaultResultRow = <T,>({
+  item,
+  fields,
+  query = "",
+}: DefaultResultRowProps<T>) => (
+  <>
+    {fields.map(toFieldAccessor).map((field, index) => (
+      <div
+        key={typeof field === "function" ? index : field}
+        className={lineClassNames[Math.min(index, lineClassNames.length - 1)]}
+      >
+        <Highlight text={getFieldText(item, field)} query={query} />
+      </div>
+    ))}
+  </>
+);
+
+export default DefaultResultRow;
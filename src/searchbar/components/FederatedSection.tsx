@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useId, useMemo } from "react";
+import { AlertCircle, Loader2 } from "lucide-react";
+import useAdaptiveSearch from "../hooks/useAdaptiveSearch";
+import DefaultResultRow from "./DefaultResultRow";
+import RateLimitNotice from "./RateLimitNotice";
+import { getFieldText, toFieldAccessor } from "../engine/fields";
+import type {
+  FederatedRow,
+  FederatedSlot,
+  FederatedSourceConfig,
+} from "../federatedSource";
+
+interface FederatedSectionProps<T> extends FederatedSlot {
+  source: FederatedSourceConfig<T>;
+}
+
+/**
+ * One source's results under its own heading. Each section runs its own
+ * search engine, so a slow or failing backend only affects its section.
+ */
+const FederatedSection = <T,>({
+  source,
+  query,
+  minQueryLength,
+  debounceMs,
+  offset,
+  activeIndex,
+  getOptionId,
+  onActivate,
+  onRowsChange,
+  onPicked,
+}: FederatedSectionProps<T>) => {
+  const {
+    id,
+    label,
+    adapter,
+    strategy = "balanced",
+    limit = 5,
+    searchFields,
+    getKey,
+    getLabel,
+    renderResult,
+    onSelect,
+    seeAllHref,
+  } = source;
+  const headingId = useId();
+
+  const search = useAdaptiveSearch<T>({
+    adapter,
+    defaultStrategy: strategy,
+    maxResults: limit,
+    minQueryLength,
+    debounceMs,
+    searchFields,
+  });
+  const {
+    setQuery,
+    results,
+    error,
+    retryAt,
+    isLoading,
+    isRevalidating,
+    pageInfo,
+    trackSelection,
+  } = search;
+
+  // Every section searches the shared input's text.
+  useEffect(() => {
+    if (search.query !== query) setQuery(query);
+  }, [query, search.query, setQuery]);
+
+  const retry = useCallback(() => setQuery(query), [setQuery, query]);
+
+  const select = useCallback(
+    (item: T) => {
+      trackSelection(results.indexOf(item) + 1, getKey(item));
+      onSelect?.(item);
+      onPicked(
+        getLabel?.(item) ?? getFieldText(item, toFieldAccessor(searchFields[0]))
+      );
+    },
+    [
+      trackSelection,
+      results,
+      getKey,
+      onSelect,
+      onPicked,
+      getLabel,
+      searchFields,
+    ]
+  );
+
+  const rows = useMemo<FederatedRow[]>(
+    () =>
+      results.map((item) => ({
+        key: getKey(item),
+        select: () => select(item),
+      })),
+    [results, getKey, select]
+  );
+  useEffect(() => {
+    onRowsChange(id, rows);
+  }, [id, rows, onRowsChange]);
+  useEffect(() => () => onRowsChange(id, []), [id, onRowsChange]);
+
+  const trimmedQuery = query.trim();
+  if (trimmedQuery.length < minQueryLength) return null;
+
+  const total = pageInfo?.total;
+
+  return (
+    <div
+      role="group"
+      aria-labelledby={headingId}
+      aria-busy={isLoading || undefined}
+      className="border-b border-gray-200 last:border-b-0"
+    >
+      <div className="flex items-center justify-between gap-2 px-3 py-1.5 bg-gray-50 text-xs">
+        <span
+          id={headingId}
+          className="font-semibold uppercase tracking-wide text-gray-600"
+        >
+          {label}
+        </span>
+        <span className="flex items-center gap-2 text-gray-500">
+          {(isLoading || isRevalidating) && (
+            <Loader2
+              className="w-3 h-3 text-blue-500 animate-spin"
+              aria-hidden="true"
+            />
+          )}
+          {seeAllHref && results.length > 0 && (
+            <a
+              href={seeAllHref(trimmedQuery)}
+              className="text-blue-600 hover:underline"
+            >
+              See all{total !== undefined ? ` ${total}` : ""}
+            </a>
+          )}
+        </span>
+      </div>
+
+      {retryAt !== null ? (
+        <RateLimitNotice retryAt={retryAt} onExpire={retry} />
+      ) : error && results.length === 0 ? (
+        <div className="px-3 py-2 flex items-center gap-2 text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+          <span className="flex-1">Couldn't search {label.toLowerCase()}.</span>
+          <button
+            type="button"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={retry}
+            className="text-xs font-medium underline hover:text-red-800"
+          >
+            Retry
+          </button>
+        </div>
+      ) : (
+        results.length === 0 && (
+          <div className="px-3 py-2 text-sm text-gray-500">
+            {isLoading ? "Searching…" : `No ${label.toLowerCase()} found`}
+          </div>
+        )
+      )}
+
+      {results.map((item, index) => {
+        const optionIndex = offset + index;
+        return (
+          <div
+            key={getKey(item)}
+            id={getOptionId(optionIndex)}
+            role="option"
+            aria-selected={optionIndex === activeIndex}
+            // Keep focus in the input; selection happens on click.
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => select(item)}
+            onMouseEnter={() => onActivate(optionIndex)}
+            className={`px-3 py-2 cursor-pointer transition-colors ${
+              optionIndex === activeIndex ? "bg-blue-50" : ""
+            } ${isRevalidating ? "opacity-60" : ""}`}
+          >
+            {renderResult?.(item, { query, isUpdating: isRevalidating }) ?? (
+              <DefaultResultRow
+                item={item}
+                fields={searchFields}
+                query={query}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FederatedSection;
@@ -0,0 +1,37 @@
+interface GhostTextProps {
+  /** The input's current value. */
+  query: string;
+  /** Full suggested query; only its part past `query` is drawn. */
+  completion: string | null;
+  /**
+   * Padding, border and font classes matching the input, so the ghost
+   * text lines up with the typed text.
+   */
+  className: string;
+}
+
+/**
+ * Inline completion drawn over the input: the typed part is invisible and
+ * holds the place, the rest shows in grey. Purely visual; screen readers
+ * get the suggestions list instead.
+ */
+const GhostText = ({ query, completion, className }: GhostTextProps) => {
+  if (
+    !completion ||
+    !completion.toLowerCase().startsWith(query.toLowerCase())
+  ) {
+    return null;
+  }
+
+  return (
+    <div
+      aria-hidden="true"
+      className={`absolute inset-0 pointer-events-none overflow-hidden whitespace-pre border-transparent ${className}`}
+    >
+      <span className="invisible">{query}</span>
+      <span className="text-gray-400">{completion.slice(query.length)}</span>
+    </div>
+  );
+};
+
+export default GhostText;
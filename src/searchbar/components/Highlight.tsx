@@ -0,0 +1,41 @@
+import { highlightTerms, parseQuery } from "../engine/queryParser";
+
+interface HighlightProps {
+  text: string;
+  query: string;
+}
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Wraps every case-insensitive occurrence of `query` in `<mark>`. Structured
+ * queries mark each searched value; qualifiers and exclusions are skipped.
+ */
+const Highlight = ({ text, query }: HighlightProps) => {
+  const terms = highlightTerms(parseQuery(query).ast);
+  if (terms.length === 0) return <>{text}</>;
+
+  // Longest first, so a phrase wins over a word inside it.
+  const pattern = terms
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|");
+  const parts = text.split(new RegExp(`(${pattern})`, "gi"));
+  return (
+    <>
+      {parts.map((part, index) =>
+        // Odd indexes are the captured matches.
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-100 text-inherit rounded-sm">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+};
+
+export default Highlight;
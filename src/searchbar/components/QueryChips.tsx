@@ -0,0 +1,61 @@
+import type { ReactNode } from "react";
+import type { ParsedQuery, QueryToken } from "../engine/queryParser";
+
+interface QueryChipsProps {
+  parsed: ParsedQuery;
+  /**
+   * Padding, border and font classes matching the input, so the chips sit
+   * under the typed text.
+   */
+  className: string;
+}
+
+const chipClassName = (token: QueryToken): string | null => {
+  if (token.kind === "or") return "bg-purple-100";
+  const { term, unknownField } = token;
+  if (unknownField) return "underline decoration-wavy decoration-red-500";
+  if (term.negated) return "bg-rose-100";
+  if (term.field) return "bg-blue-100";
+  if (term.phrase) return "bg-amber-100";
+  return null;
+};
+
+/**
+ * Draws recognized qualifiers, exclusions, phrases and `OR` as chips
+ * behind the input's text, and underlines unknown fields. The input must
+ * be transparent and stacked above this. Purely visual; the diagnostics
+ * line carries the same information for screen readers.
+ */
+const QueryChips = ({ parsed, className }: QueryChipsProps) => {
+  const { text } = parsed.ast;
+  const chips = parsed.tokens.flatMap((token) => {
+    const chipClass = chipClassName(token);
+    const span = token.kind === "or" ? token : token.term;
+    return chipClass ? [{ ...span, chipClass }] : [];
+  });
+  if (chips.length === 0) return null;
+
+  const segments: ReactNode[] = [];
+  let offset = 0;
+  for (const { start, end, chipClass } of chips) {
+    segments.push(text.slice(offset, start));
+    segments.push(
+      <span key={start} className={`rounded ${chipClass}`}>
+        {text.slice(start, end)}
+      </span>
+    );
+    offset = end;
+  }
+  segments.push(text.slice(offset));
+
+  return (
+    <div
+      aria-hidden="true"
+      className={`absolute inset-0 pointer-events-none overflow-hidden whitespace-pre border-transparent text-transparent ${className}`}
+    >
+      {segments}
+    </div>
+  );
+};
+
+export default QueryChips;
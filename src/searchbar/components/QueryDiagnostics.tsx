@@ -0,0 +1,22 @@
+import { AlertCircle } from "lucide-react";
+import type { QueryDiagnostic } from "../engine/queryParser";
+
+interface QueryDiagnosticsProps {
+  /** Reference it from the input's `aria-describedby`. */
+  id: string;
+  diagnostics: QueryDiagnostic[];
+}
+
+/** Problems found while parsing the query, listed under the input. */
+const QueryDiagnostics = ({ id, diagnostics }: QueryDiagnosticsProps) => {
+  if (diagnostics.length === 0) return null;
+
+  return (
+    <p id={id} className="mt-1 flex items-center gap-1 text-xs text-red-600">
+      <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" aria-hidden="true" />
+      {diagnostics.map((diagnostic) => diagnostic.message).join(" · ")}
+    </p>
+  );
+};
+
+export default QueryDiagnostics;
@@ -0,0 +1,35 @@
+import { useEffect, useRef } from "react";
+import { Clock } from "lucide-react";
+import useCountdown from "../hooks/useCountdown";
+
+interface RateLimitNoticeProps {
+  /** Epoch ms when searching is allowed again. */
+  retryAt: number;
+  /** Called once the wait is over, e.g. to re-run the search. */
+  onExpire?: () => void;
+}
+
+/** Live countdown shown in place of the rate-limit error. */
+const RateLimitNotice = ({ retryAt, onExpire }: RateLimitNoticeProps) => {
+  const secondsLeft = useCountdown(retryAt);
+  const expiredForRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (secondsLeft > 0 || expiredForRef.current === retryAt) return;
+    expiredForRef.current = retryAt;
+    onExpire?.();
+  }, [secondsLeft, retryAt, onExpire]);
+
+  return (
+    <div className="p-3 text-amber-800 bg-amber-50 flex items-start gap-2 border-b">
+      <Clock className="w-4 h-4 mt-0.5 flex-shrink-0" aria-hidden="true" />
+      <span className="text-sm">
+        {secondsLeft > 0
+          ? `Too many searches. Try again in ${secondsLeft}s.`
+          : "You can search again."}
+      </span>
+    </div>
+  );
+};
+
+export default RateLimitNotice;
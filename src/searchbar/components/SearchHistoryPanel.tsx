@@ -0,0 +1,149 @@
+import { History, Pin, PinOff, Tag, X } from "lucide-react";
+import type { HistoryItem } from "../engine/searchHistory";
+
+interface SearchHistoryPanelProps<T> {
+  /** Pinned items first, as `useSearchHistory` returns them. */
+  items: HistoryItem<T>[];
+  listboxId: string;
+  activeIndex: number;
+  getOptionId: (index: number) => string;
+  onSelect: (item: HistoryItem<T>) => void;
+  onActivate: (index: number) => void;
+  onTogglePin: (item: HistoryItem<T>) => void;
+  onRemove: (item: HistoryItem<T>) => void;
+  onClearRecent: () => void;
+}
+
+const labelOf = <T,>(item: HistoryItem<T>) =>
+  item.kind === "query" ? item.query : item.label;
+
+/**
+ * Recent queries, recently selected entities and pinned favorites, shown
+ * while the input is empty. Options follow the combobox's active
+ * descendant, so the same keyboard model drives both lists.
+ */
+const SearchHistoryPanel = <T,>({
+  items,
+  listboxId,
+  activeIndex,
+  getOptionId,
+  onSelect,
+  onActivate,
+  onTogglePin,
+  onRemove,
+  onClearRecent,
+}: SearchHistoryPanelProps<T>) => {
+  if (items.length === 0) return null;
+
+  const pinnedCount = items.filter((item) => item.pinned).length;
+  const sections = [
+    { id: "pinned", title: "Pinned", start: 0, end: pinnedCount },
+    { id: "recent", title: "Recent", start: pinnedCount, end: items.length },
+  ].filter((section) => section.end > section.start);
+
+  return (
+    <div className="absolute w-full mt-1 bg-white rounded-lg shadow-lg border border-gray-200 overflow-hidden z-40">
+      <div
+        id={listboxId}
+        role="listbox"
+        aria-label="Recent searches and favorites"
+        className="max-h-80 overflow-y-auto"
+      >
+        {sections.map((section) => (
+          <div
+            key={section.id}
+            role="group"
+            aria-labelledby={`${listboxId}-${section.id}`}
+          >
+            <div
+              id={`${listboxId}-${section.id}`}
+              className="px-3 pt-2 pb-1 text-xs font-medium uppercase tracking-wide text-gray-500"
+            >
+              {section.title}
+            </div>
+            {items.slice(section.start, section.end).map((item, offset) => {
+              const index = section.start + offset;
+              const label = labelOf(item);
+              return (
+                <div
+                  key={item.id}
+                  id={getOptionId(index)}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  // Keep focus in the input; selection happens on click.
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => onSelect(item)}
+                  onMouseEnter={() => onActivate(index)}
+                  className={`group flex items-center gap-2 px-3 py-2 cursor-pointer text-sm transition-colors ${
+                    index === activeIndex ? "bg-blue-50" : ""
+                  }`}
+                >
+                  {item.kind === "query" ? (
+                    <History
+                      className="w-4 h-4 text-gray-400 flex-shrink-0"
+                      aria-hidden="true"
+                    />
+                  ) : (
+                    <Tag
+                      className="w-4 h-4 text-gray-400 flex-shrink-0"
+                      aria-hidden="true"
+                    />
+                  )}
+                  <span className="flex-1 truncate text-gray-800">{label}</span>
+                  <button
+                    type="button"
+                    tabIndex={-1}
+                    aria-label={item.pinned ? `Unpin ${label}` : `Pin ${label}`}
+                    aria-pressed={item.pinned}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onTogglePin(item);
+                    }}
+                    className={`p-1 rounded hover:bg-gray-200 ${
+                      item.pinned
+                        ? "text-blue-600"
+                        : "text-gray-400 opacity-0 group-hover:opacity-100"
+                    }`}
+                  >
+                    {item.pinned ? (
+                      <PinOff className="w-3.5 h-3.5" />
+                    ) : (
+                      <Pin className="w-3.5 h-3.5" />
+                    )}
+                  </button>
+                  <button
+                    type="button"
+                    tabIndex={-1}
+                    aria-label={`Remove ${label} from history`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRemove(item);
+                    }}
+                    className="p-1 rounded text-gray-400 hover:bg-gray-200 opacity-0 group-hover:opacity-100"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-between px-3 py-1.5 text-xs text-gray-500 border-t bg-gray-50">
+        <span>Delete removes · Alt+P pins</span>
+        {items.length > pinnedCount && (
+          <button
+            type="button"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={onClearRecent}
+            className="hover:text-gray-700 underline"
+          >
+            Clear recent
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchHistoryPanel;
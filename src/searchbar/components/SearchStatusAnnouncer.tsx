@@ -0,0 +1,45 @@
+import type { SearchSource } from "../engine/types";
+
+const sourceLabels: Record<SearchSource, string> = {
+  api: "from the API",
+  cache: "from cache",
+  local: "from local results",
+  rate_limited: "while rate limited",
+};
+
+interface SearchStatusAnnouncerProps {
+  count: number;
+  total?: number;
+  source: SearchSource | null;
+  isLoading: boolean;
+}
+
+/** Visually hidden polite live region for result count and source. */
+const SearchStatusAnnouncer = ({
+  count,
+  total,
+  source,
+  isLoading,
+}: SearchStatusAnnouncerProps) => {
+  let message = "";
+  if (isLoading) {
+    message = "Searching…";
+  } else if (source) {
+    const countText =
+      total !== undefined && total > count ? `${count} of ${total}` : count;
+    message = `${countText} result${count !== 1 ? "s" : ""} ${sourceLabels[source]}`;
+  }
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      aria-atomic="true"
+      className="sr-only"
+    >
+      {message}
+    </div>
+  );
+};
+
+export default SearchStatusAnnouncer;
@@ -0,0 +1,40 @@
+import { X } from "lucide-react";
+import type { KeyAccessor } from "../engine/fields";
+
+interface SelectionChipsProps<T> {
+  items: T[];
+  getKey: KeyAccessor<T>;
+  getLabel: (item: T) => string;
+  onRemove: (item: T) => void;
+}
+
+/** Picked entities in multi-select mode, drawn inside the input's frame. */
+const SelectionChips = <T,>({
+  items,
+  getKey,
+  getLabel,
+  onRemove,
+}: SelectionChipsProps<T>) =>
+  items.map((item) => {
+    const label = getLabel(item);
+    return (
+      <span
+        key={getKey(item)}
+        className="inline-flex items-center gap-1 max-w-48 pl-2 pr-1 py-0.5 rounded-full bg-blue-100 text-sm text-blue-800"
+      >
+        <span className="truncate">{label}</span>
+        <button
+          type="button"
+          // Keep focus in the input, like the result rows do.
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onRemove(item)}
+          className="rounded-full p-0.5 hover:bg-blue-200 transition-colors"
+          aria-label={`Remove ${label}`}
+        >
+          <X className="w-3 h-3" aria-hidden="true" />
+        </button>
+      </span>
+    );
+  });
+
+export default SelectionChips;
@@ -0,0 +1,73 @@
+import { Search } from "lucide-react";
+import type { QuerySuggestion } from "../engine/suggestions";
+
+interface SuggestionGroupProps {
+  /** Listbox id; add it to the input's `aria-controls`. */
+  id: string;
+  suggestions: QuerySuggestion[];
+  query: string;
+  /** Option ids and the active index share the combobox's numbering. */
+  getOptionId: (index: number) => string;
+  activeIndex: number;
+  onSelect: (suggestion: QuerySuggestion) => void;
+  onActivate: (index: number) => void;
+}
+
+/**
+ * Query suggestions listed above the entity results, in a listbox of
+ * their own. They take the first option indexes, so the results that
+ * follow are offset by their count.
+ */
+const SuggestionGroup = ({
+  id,
+  suggestions,
+  query,
+  getOptionId,
+  activeIndex,
+  onSelect,
+  onActivate,
+}: SuggestionGroupProps) => {
+  if (suggestions.length === 0) return null;
+
+  const typed = query.trim().toLowerCase();
+
+  return (
+    <div id={id} role="listbox" aria-label="Suggestions" className="border-b">
+      {suggestions.map((suggestion, index) => {
+        const completes = suggestion.text.toLowerCase().startsWith(typed);
+        return (
+          <div
+            key={suggestion.text}
+            id={getOptionId(index)}
+            role="option"
+            aria-selected={index === activeIndex}
+            // Keep focus in the input; selection happens on click.
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(suggestion)}
+            onMouseEnter={() => onActivate(index)}
+            className={`flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer transition-colors ${
+              index === activeIndex ? "bg-blue-50" : ""
+            }`}
+          >
+            <Search
+              className="w-3.5 h-3.5 text-gray-400 flex-shrink-0"
+              aria-hidden="true"
+            />
+            {completes ? (
+              <span className="truncate text-gray-600">
+                {suggestion.text.slice(0, typed.length)}
+                <span className="font-semibold text-gray-900">
+                  {suggestion.text.slice(typed.length)}
+                </span>
+              </span>
+            ) : (
+              <span className="truncate text-gray-900">{suggestion.text}</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SuggestionGroup;
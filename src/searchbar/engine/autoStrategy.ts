@@ -0,0 +1,130 @@
+import type { StrategyMode } from "./types";
+
+// ============================================================================
+// AUTO MODE: PICK A STRATEGY FROM RUNTIME SIGNALS
+// ============================================================================
+
+/** Subset of the Network Information API (`navigator.connection`). */
+export interface ConnectionHints {
+  effectiveType?: "slow-2g" | "2g" | "3g" | "4g";
+  saveData?: boolean;
+  /** Round-trip estimate in ms. */
+  rtt?: number;
+}
+
+export interface AutoSignals {
+  /** Smoothed API latency in ms; null before the first response. */
+  latencyMs: number | null;
+  /** Requests left in the rate-limit budget, and the budget's size. */
+  rateLimitRemaining: number;
+  rateLimit: number;
+  /** Share of cache lookups that hit, 0–1; null before any lookup. */
+  cacheHitRatio: number | null;
+  /** Smoothed gap between keystrokes in ms; null before typing starts. */
+  typingIntervalMs: number | null;
+  connection?: ConnectionHints;
+}
+
+export interface AutoDecision {
+  mode: StrategyMode;
+  reason: string;
+}
+
+/** Thresholds behind `chooseSearchMode`. */
+export const AUTO_THRESHOLDS = {
+  slowLatencyMs: 1500,
+  fastLatencyMs: 300,
+  fastTypingMs: 150,
+  /** Budget share below which API calls are rationed. */
+  lowBudget: 0.3,
+  /** Budget share below which searches wait for Enter. */
+  criticalBudget: 0.1,
+  highCacheHitRatio: 0.5,
+};
+
+/** Reads `navigator.connection` where the browser exposes it. */
+export const readConnectionHints = (): ConnectionHints | undefined => {
+  if (typeof navigator === "undefined") return undefined;
+  return (navigator as Navigator & { connection?: ConnectionHints }).connection;
+};
+
+/**
+ * Picks the strategy for the next search. Rules run from most to least
+ * restrictive, so scarce budget or a poor connection wins over speed.
+ */
+export const chooseSearchMode = ({
+  latencyMs,
+  rateLimitRemaining,
+  rateLimit,
+  cacheHitRatio,
+  typingIntervalMs,
+  connection,
+}: AutoSignals): AutoDecision => {
+  const budget = rateLimit > 0 ? rateLimitRemaining / rateLimit : 0;
+  const {
+    slowLatencyMs,
+    fastLatencyMs,
+    fastTypingMs,
+    lowBudget,
+    criticalBudget,
+    highCacheHitRatio,
+  } = AUTO_THRESHOLDS;
+
+  if (budget < criticalBudget) {
+    return {
+      mode: "manual",
+      reason: `Only ${rateLimitRemaining} API requests left; search on Enter`,
+    };
+  }
+  if (connection?.saveData) {
+    return { mode: "conservative", reason: "Data saver is on" };
+  }
+  if (
+    connection?.effectiveType === "slow-2g" ||
+    connection?.effectiveType === "2g"
+  ) {
+    return {
+      mode: "conservative",
+      reason: `Slow connection (${connection.effectiveType})`,
+    };
+  }
+  if (budget < lowBudget) {
+    return {
+      mode: "conservative",
+      reason: `Rate-limit budget low (${rateLimitRemaining}/${rateLimit})`,
+    };
+  }
+  if (latencyMs !== null && latencyMs > slowLatencyMs) {
+    return {
+      mode: "conservative",
+      reason: `Slow API (~${Math.round(latencyMs)}ms)`,
+    };
+  }
+  if (cacheHitRatio !== null && cacheHitRatio >= highCacheHitRatio) {
+    return {
+      mode: "balanced",
+      reason: `Cache answers ${Math.round(cacheHitRatio * 100)}% of lookups`,
+    };
+  }
+  if (typingIntervalMs !== null && typingIntervalMs < fastTypingMs) {
+    return {
+      mode: "balanced",
+      reason: `Fast typing (~${Math.round(typingIntervalMs)}ms per key)`,
+    };
+  }
+  if (latencyMs !== null && latencyMs < fastLatencyMs) {
+    return {
+      mode: "instant",
+      reason: `Fast API (~${Math.round(latencyMs)}ms) with budget to spare`,
+    };
+  }
+  return { mode: "balanced", reason: "Not enough signal yet; using default" };
+};
+
+/** Exponentially weighted moving average; `weight` is the new sample's. */
+export const smooth = (
+  previous: number | null,
+  sample: number,
+  weight: number = 0.3
+): number =>
+  previous === null ? sample : previous + weight * (sample - previous);
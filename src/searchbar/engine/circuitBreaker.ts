@@ -0,0 +1,55 @@
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. */
+  failureThreshold?: number;
+  /** How long (ms) the circuit stays open before trying again. */
+  cooldownMs?: number;
+}
+
+/**
+ * Stops calling a failing backend. After `failureThreshold` failures in a
+ * row the circuit opens; once `cooldownMs` passes it half-opens, and the
+ * next request either closes it (success) or opens it again (failure).
+ */
+export const createCircuitBreaker = ({
+  failureThreshold = 5,
+  cooldownMs = 30000,
+}: CircuitBreakerOptions = {}) => {
+  let failures = 0;
+  let openedAt: number | null = null;
+
+  const state = (): CircuitState => {
+    if (openedAt === null) return "closed";
+    return Date.now() - openedAt >= cooldownMs ? "half-open" : "open";
+  };
+
+  return {
+    state,
+
+    canRequest: () => state() !== "open",
+
+    recordSuccess: () => {
+      failures = 0;
+      openedAt = null;
+    },
+
+    recordFailure: () => {
+      failures++;
+      if (state() === "half-open" || failures >= failureThreshold) {
+        openedAt = Date.now();
+      }
+    },
+
+    /** Epoch ms when an open circuit will half-open, or null if not open. */
+    reopensAt: (): number | null =>
+      state() === "open" && openedAt !== null ? openedAt + cooldownMs : null,
+
+    reset: () => {
+      failures = 0;
+      openedAt = null;
+    },
+  };
+};
+
+export type CircuitBreaker = ReturnType<typeof createCircuitBreaker>;
@@ -0,0 +1,92 @@
+// ============================================================================
+// FIELD ACCESSORS
+// ============================================================================
+
+/**
+ * Dot-separated path into `T`, e.g. `"name"` or `"company.name"`. Arrays are
+ * treated as leaves.
+ */
+export type FieldPath<T> = T extends object
+  ? {
+      [K in keyof T & string]: T[K] extends readonly unknown[]
+        ? K
+        : T[K] extends object
+          ? K | `${K}.${FieldPath<T[K]>}`
+          : K;
+    }[keyof T & string]
+  : never;
+
+export type FieldAccessor<T> = FieldPath<T> | ((item: T) => unknown);
+
+export type KeyAccessor<T> = (item: T) => string | number;
+
+/** A field with a relevance weight; plain accessors weigh 1. */
+export interface WeightedField<T> {
+  field: FieldAccessor<T>;
+  weight: number;
+  /**
+   * Qualifier for `name:value` queries. Paths answer to themselves and
+   * their first segment; function accessors only to this.
+   */
+  name?: string;
+}
+
+export type SearchField<T> = FieldAccessor<T> | WeightedField<T>;
+
+export const toWeightedField = <T>(field: SearchField<T>): WeightedField<T> =>
+  typeof field === "object" ? field : { field, weight: 1 };
+
+export const toFieldAccessor = <T>(field: SearchField<T>): FieldAccessor<T> =>
+  typeof field === "object" ? field.field : field;
+
+/** Names a field answers to in `name:value` queries, lowercased. */
+export const getFieldNames = <T>(field: SearchField<T>): string[] => {
+  const { field: accessor, name } = toWeightedField(field);
+  const names = name ? [name] : [];
+  if (typeof accessor === "string") {
+    names.push(accessor, accessor.split(".")[0]);
+  }
+  return [...new Set(names.map((n) => n.toLowerCase()))];
+};
+
+/** Every qualifier `fields` accept, for validating parsed queries. */
+export const getQueryFieldNames = <T>(fields: SearchField<T>[]): string[] => [
+  ...new Set(fields.flatMap(getFieldNames)),
+];
+
+/** Reads a dot-separated path (`"data.items"`) out of an untyped value. */
+export const getPathValue = (source: unknown, path: string): unknown =>
+  path
+    .split(".")
+    .reduce<unknown>(
+      (value, segment) =>
+        value != null && typeof value === "object"
+          ? (value as Record<string, unknown>)[segment]
+          : undefined,
+      source
+    );
+
+export const getFieldValue = <T>(item: T, field: FieldAccessor<T>): unknown =>
+  typeof field === "function" ? field(item) : getPathValue(item, field);
+
+/**
+ * Flattens a field value into the strings it can be matched against.
+ * Objects contribute their own string/number members (one level deep).
+ */
+export const getFieldStrings = <T>(
+  item: T,
+  field: FieldAccessor<T>
+): string[] => {
+  const value = getFieldValue(item, field);
+  if (typeof value === "string") return [value];
+  if (typeof value === "number") return [String(value)];
+  if (typeof value === "object" && value !== null) {
+    return Object.values(value).flatMap((v) =>
+      typeof v === "string" || typeof v === "number" ? [String(v)] : []
+    );
+  }
+  return [];
+};
+
+export const getFieldText = <T>(item: T, field: FieldAccessor<T>): string =>
+  getFieldStrings(item, field).join(" ");
@@ -0,0 +1,72 @@
+// ============================================================================
+// APPROXIMATE (TYPO-TOLERANT) MATCHING
+// ============================================================================
+
+/** Minimum similarity (0–1) for a typo'd query to still count as a match. */
+export const DEFAULT_FUZZY_THRESHOLD = 0.75;
+
+/** Shorter queries have too few letters for an edit to be a "typo". */
+export const MIN_FUZZY_QUERY_LENGTH = 3;
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions
+ * and swaps of two adjacent characters ("jhon" → "john") each cost 1.
+ */
+export const editDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  // Three rolling rows: the swap rule looks two rows back.
+  let twoBack: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, twoBack[j - 2] + 1);
+      }
+      current[j] = distance;
+    }
+    twoBack = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/** Edit distance normalised to 0 (unrelated) … 1 (identical). */
+export const similarity = (a: string, b: string): number => {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+};
+
+/**
+ * How closely `lowerQuery` approximates `text`: the best similarity against
+ * the whole text, any of its words, or the same-length start of either (so
+ * a half-typed "jhon" still finds "johnathan"). Returns 0 for queries too
+ * short to judge.
+ */
+export const fuzzyScore = (text: string, lowerQuery: string): number => {
+  if (lowerQuery.length < MIN_FUZZY_QUERY_LENGTH) return 0;
+
+  const lowerText = text.toLowerCase();
+  const candidates = [lowerText, ...lowerText.split(/[^\p{L}\p{N}]+/u)];
+
+  return candidates.reduce((best, candidate) => {
+    if (!candidate) return best;
+    const whole = similarity(candidate, lowerQuery);
+    const start =
+      candidate.length > lowerQuery.length
+        ? similarity(candidate.slice(0, lowerQuery.length), lowerQuery)
+        : 0;
+    return Math.max(best, whole, start);
+  }, 0);
+};
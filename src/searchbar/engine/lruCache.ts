@@ -0,0 +1,171 @@
+// ============================================================================
+// LEAST-RECENTLY-USED CACHE
+// ============================================================================
+
+export interface LruCacheOptions<V> {
+  /** Most entries kept. Unbounded when unset. */
+  maxEntries?: number;
+  /**
+   * Approximate memory budget. An entry larger than the whole budget is
+   * evicted immediately.
+   */
+  maxBytes?: number;
+  /** Entries older than this (ms) read as missing. */
+  ttl?: number;
+  /** Byte estimate for one value; only consulted when `maxBytes` is set. */
+  sizeOf?: (value: V) => number;
+}
+
+export interface LruCacheStats {
+  hits: number;
+  misses: number;
+  /** Entries dropped to stay within `maxEntries` / `maxBytes`. */
+  evictions: number;
+  /** Entries dropped because they outlived `ttl`. */
+  expirations: number;
+}
+
+interface Slot<V> {
+  value: V;
+  size: number;
+  timestamp: number;
+}
+
+/** Rough UTF-16 footprint of a JSON-serializable value. */
+export const estimateBytes = (value: unknown): number => {
+  try {
+    return (JSON.stringify(value)?.length ?? 0) * 2;
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * Map-backed LRU: a `Map` iterates in insertion order, so re-inserting on
+ * read keeps the least recently used entry first and every operation O(1).
+ */
+export const createLruCache = <K, V>({
+  maxEntries = Infinity,
+  maxBytes = Infinity,
+  ttl = Infinity,
+  sizeOf = estimateBytes,
+}: LruCacheOptions<V> = {}) => {
+  const slots = new Map<K, Slot<V>>();
+  const stats: LruCacheStats = {
+    hits: 0,
+    misses: 0,
+    evictions: 0,
+    expirations: 0,
+  };
+  let bytes = 0;
+
+  const isExpired = (slot: Slot<V>) => Date.now() - slot.timestamp > ttl;
+
+  const remove = (key: K, slot: Slot<V>) => {
+    slots.delete(key);
+    bytes -= slot.size;
+  };
+
+  /** Returns the live slot for `key`, dropping it first if it expired. */
+  const liveSlot = (key: K): Slot<V> | undefined => {
+    const slot = slots.get(key);
+    if (slot && isExpired(slot)) {
+      remove(key, slot);
+      stats.expirations++;
+      return undefined;
+    }
+    return slot;
+  };
+
+  const trim = () => {
+    while (slots.size > maxEntries || bytes > maxBytes) {
+      const oldest = slots.entries().next();
+      if (oldest.done) break;
+      remove(...oldest.value);
+      stats.evictions++;
+    }
+  };
+
+  const purgeExpired = (): number => {
+    let purged = 0;
+    for (const [key, slot] of slots) {
+      if (!isExpired(slot)) continue;
+      remove(key, slot);
+      purged++;
+    }
+    stats.expirations += purged;
+    return purged;
+  };
+
+  return {
+    /** Reads `key` and marks it most recently used. */
+    get: (key: K): V | undefined => {
+      const slot = liveSlot(key);
+      if (!slot) {
+        stats.misses++;
+        return undefined;
+      }
+      slots.delete(key);
+      slots.set(key, slot);
+      stats.hits++;
+      return slot.value;
+    },
+
+    /** Reads `key` without touching recency or the hit/miss counters. */
+    peek: (key: K): V | undefined => liveSlot(key)?.value,
+
+    /**
+     * Stores `value` as most recently used. `timestamp` backdates entries
+     * restored from elsewhere so they still expire on time.
+     */
+    set: (key: K, value: V, timestamp: number = Date.now()): void => {
+      const existing = slots.get(key);
+      if (existing) remove(key, existing);
+
+      const size = Number.isFinite(maxBytes) ? sizeOf(value) : 0;
+      slots.set(key, { value, size, timestamp });
+      bytes += size;
+      trim();
+    },
+
+    delete: (key: K): boolean => {
+      const slot = slots.get(key);
+      if (!slot) return false;
+      remove(key, slot);
+      return true;
+    },
+
+    clear: (): void => {
+      slots.clear();
+      bytes = 0;
+    },
+
+    /** Live values, least recently used first. Doesn't touch recency. */
+    values: (): V[] =>
+      Array.from(slots.values())
+        .filter((slot) => !isExpired(slot))
+        .map((slot) => slot.value),
+
+    purgeExpired,
+
+    /** Purges expired entries every `intervalMs`; returns a stop function. */
+    schedulePurge: (intervalMs: number): (() => void) => {
+      const timer = setInterval(purgeExpired, intervalMs);
+      return () => clearInterval(timer);
+    },
+
+    get size(): number {
+      return slots.size;
+    },
+
+    get bytes(): number {
+      return bytes;
+    },
+
+    get stats(): LruCacheStats {
+      return { ...stats };
+    },
+  };
+};
+
+export type LruCache<K, V> = ReturnType<typeof createLruCache<K, V>>;
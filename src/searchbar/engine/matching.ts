@@ -0,0 +1,17 @@
+import { scoreQuery, toQueryAst, type MatchOptions } from "./ranking";
+import type { SearchField } from "./fields";
+import type { QueryAst } from "./queryParser";
+
+/**
+ * Case-insensitive substring match of `query` against the given fields of
+ * `item`. Object-valued fields (e.g. `company`) match on any string member.
+ * Structured queries (`email:@acme.com -name:test`, `"a phrase"`, `OR`)
+ * are parsed first. Pass `fuzzyThreshold` to also accept near-misses such
+ * as typos.
+ */
+export const matchesQuery = <T>(
+  item: T,
+  fields: SearchField<T>[],
+  query: string | QueryAst,
+  options?: MatchOptions
+): boolean => scoreQuery(item, fields, toQueryAst(query, fields), options) > 0;
@@ -0,0 +1,136 @@
+import { openPersistentStore, type StoredEntry } from "./persistentStore";
+import {
+  pageCacheKey,
+  type SearchCache,
+  type SearchCacheEvent,
+} from "./searchCache";
+import type { CacheEntry } from "./types";
+
+/**
+ * Bump when the shape of cached rows changes; entries written under an
+ * older version are never read back.
+ */
+export const CACHE_SCHEMA_VERSION = 1;
+
+export interface PersistentCacheOptions {
+  /** Endpoint identity, usually `SearchAdapter.id`. */
+  namespace: string;
+  /** Entries older than this (ms) are skipped and purged. */
+  ttl: number;
+  /** Most entries kept in storage for this namespace. */
+  maxEntries: number;
+  version?: number;
+}
+
+const byAge = <T>(a: StoredEntry<T>, b: StoredEntry<T>) =>
+  a.entry.timestamp - b.entry.timestamp;
+
+/**
+ * Backs an in-memory search cache with IndexedDB (or localStorage) and
+ * shares writes with other tabs over a BroadcastChannel, so a reload or a
+ * new tab starts warm. Rows must survive structured cloning and JSON.
+ * Returns a function that detaches the cache and closes the storage
+ * connection and the channel.
+ */
+export const attachPersistentStore = <T>(
+  cache: SearchCache<T>,
+  {
+    namespace,
+    ttl,
+    maxEntries,
+    version = CACHE_SCHEMA_VERSION,
+  }: PersistentCacheOptions
+): (() => void) => {
+  const scope = `v${version}:${namespace}`;
+  const storeReady = openPersistentStore<T>();
+  const channel =
+    typeof BroadcastChannel !== "undefined"
+      ? new BroadcastChannel(`adaptive-search:${scope}`)
+      : null;
+  let detached = false;
+  let applyingRemote = false;
+
+  const isFresh = (entry: CacheEntry<T>) => Date.now() - entry.timestamp <= ttl;
+
+  /** Drops expired entries, then the oldest ones beyond `maxEntries`. */
+  const prune = async () => {
+    const store = await storeReady;
+    if (!store) return;
+
+    const records = (await store.load(scope)).sort(byAge);
+    const expired = records.filter(({ entry }) => !isFresh(entry));
+    const fresh = records.filter(({ entry }) => isFresh(entry));
+    const overflow = fresh.slice(0, Math.max(0, fresh.length - maxEntries));
+
+    const stale = [...expired, ...overflow].map(({ key }) => key);
+    if (stale.length > 0) await store.remove(scope, stale);
+    return fresh.slice(overflow.length);
+  };
+
+  const persist = async (entry: CacheEntry<T>) => {
+    const store = await storeReady;
+    if (!store) return;
+
+    const record = {
+      scope,
+      key: pageCacheKey(entry.query, entry.pageInfo?.page),
+      entry,
+    };
+    try {
+      await store.save(record);
+    } catch {
+      // Most likely out of quota: make room once and retry.
+      await prune();
+      await store.save(record);
+    }
+    await prune();
+  };
+
+  const onLocalChange = (event: SearchCacheEvent<T>) => {
+    if (applyingRemote) return;
+    channel?.postMessage(event);
+
+    if (event.type === "set") {
+      persist(event.entry).catch(() => {
+        // Storage is best effort; the in-memory cache still has the entry.
+      });
+    } else {
+      storeReady.then((store) => store?.clear(scope)).catch(() => {});
+    }
+  };
+
+  const onRemoteChange = ({ data }: MessageEvent<SearchCacheEvent<T>>) => {
+    if (data.type === "set") {
+      cache.restore(data.entry);
+      return;
+    }
+    // The tab that cleared already wiped storage; don't echo it back.
+    applyingRemote = true;
+    try {
+      cache.clear();
+    } finally {
+      applyingRemote = false;
+    }
+  };
+
+  const unsubscribe = cache.subscribe(onLocalChange);
+  channel?.addEventListener("message", onRemoteChange);
+
+  prune()
+    .then((records) => {
+      if (detached || !records) return;
+      records.forEach(({ entry }) => cache.restore(entry));
+    })
+    .catch(() => {
+      // Unreadable storage just means a cold cache.
+    });
+
+  return () => {
+    detached = true;
+    unsubscribe();
+    channel?.removeEventListener("message", onRemoteChange);
+    channel?.close();
+    // Each attach opens its own connection; remounts must not pile them up.
+    storeReady.then((store) => store?.close()).catch(() => {});
+  };
+};
@@ -0,0 +1,163 @@
+import type { CacheEntry } from "./types";
+
+// ============================================================================
+// STORAGE BACKENDS FOR THE PERSISTENT CACHE TIER
+// ============================================================================
+
+export interface StoredEntry<T> {
+  /** Versioned endpoint scope, e.g. `v1:https://api.example.com/users`. */
+  scope: string;
+  /** Page cache key within the scope. */
+  key: string;
+  entry: CacheEntry<T>;
+}
+
+/** Async key-value storage for cache entries, grouped by scope. */
+export interface PersistentStore<T> {
+  load: (scope: string) => Promise<StoredEntry<T>[]>;
+  save: (record: StoredEntry<T>) => Promise<void>;
+  remove: (scope: string, keys: string[]) => Promise<void>;
+  clear: (scope: string) => Promise<void>;
+  /** Releases the connection; the store is unusable afterwards. */
+  close: () => void;
+}
+
+const DB_NAME = "adaptive-search-cache";
+const DB_VERSION = 1;
+const STORE_NAME = "entries";
+const SCOPE_INDEX = "scope";
+const STORAGE_PREFIX = "adaptive-search:";
+
+const recordId = (scope: string, key: string) => `${scope}|${key}`;
+
+const settle = <R>(request: IDBRequest<R>): Promise<R> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, {
+        keyPath: "id",
+      });
+      store.createIndex(SCOPE_INDEX, "scope");
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let another tab upgrade the schema instead of blocking it.
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+const createIndexedDBStore = <T>(db: IDBDatabase): PersistentStore<T> => {
+  const objectStore = (mode: IDBTransactionMode) =>
+    db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    load: async (scope) => {
+      const records = await settle<(StoredEntry<T> & { id: string })[]>(
+        objectStore("readonly").index(SCOPE_INDEX).getAll(scope)
+      );
+      return records.map(({ scope, key, entry }) => ({ scope, key, entry }));
+    },
+
+    save: async (record) => {
+      await settle(
+        objectStore("readwrite").put({
+          ...record,
+          id: recordId(record.scope, record.key),
+        })
+      );
+    },
+
+    remove: async (scope, keys) => {
+      const store = objectStore("readwrite");
+      await Promise.all(
+        keys.map((key) => settle(store.delete(recordId(scope, key))))
+      );
+    },
+
+    clear: async (scope) => {
+      const store = objectStore("readwrite");
+      const ids = await settle(store.index(SCOPE_INDEX).getAllKeys(scope));
+      await Promise.all(ids.map((id) => settle(store.delete(id))));
+    },
+
+    // Pending transactions still finish; close waits for them.
+    close: () => db.close(),
+  };
+};
+
+const createLocalStorageStore = <T>(): PersistentStore<T> => {
+  const storageKey = (scope: string, key: string) =>
+    STORAGE_PREFIX + recordId(scope, key);
+
+  const keysInScope = (scope: string): string[] => {
+    const prefix = STORAGE_PREFIX + recordId(scope, "");
+    return Array.from({ length: localStorage.length }, (_, i) =>
+      localStorage.key(i)
+    ).filter((key): key is string => !!key && key.startsWith(prefix));
+  };
+
+  return {
+    load: async (scope) =>
+      keysInScope(scope).flatMap((storageKey) => {
+        try {
+          return [JSON.parse(localStorage.getItem(storageKey) ?? "")];
+        } catch {
+          // Corrupt or foreign value; drop it rather than fail the load.
+          localStorage.removeItem(storageKey);
+          return [];
+        }
+      }),
+
+    save: async (record) => {
+      // Throws QuotaExceededError when full; the caller prunes and moves on.
+      localStorage.setItem(
+        storageKey(record.scope, record.key),
+        JSON.stringify(record)
+      );
+    },
+
+    remove: async (scope, keys) => {
+      keys.forEach((key) => localStorage.removeItem(storageKey(scope, key)));
+    },
+
+    clear: async (scope) => {
+      keysInScope(scope).forEach((key) => localStorage.removeItem(key));
+    },
+
+    close: () => {},
+  };
+};
+
+/**
+ * Opens the best available store: IndexedDB, else localStorage (private
+ * windows and some embedded browsers refuse IndexedDB), else null.
+ */
+export const openPersistentStore = async <
+  T,
+>(): Promise<PersistentStore<T> | null> => {
+  if (typeof indexedDB !== "undefined") {
+    try {
+      return createIndexedDBStore<T>(await openDatabase());
+    } catch {
+      // Fall through to localStorage.
+    }
+  }
+
+  try {
+    if (typeof localStorage !== "undefined") {
+      return createLocalStorageStore<T>();
+    }
+  } catch {
+    // Accessing localStorage throws when storage is disabled.
+  }
+
+  return null;
+};
@@ -0,0 +1,159 @@
+// ============================================================================
+// STRUCTURED QUERY SYNTAX
+// ============================================================================
+
+/**
+ * One search term: `word`, `"a phrase"`, `field:value`, `field:"a phrase"`,
+ * any of them negated with a leading `-`.
+ */
+export interface QueryTerm {
+  /** Qualifier as typed (`email` in `email:@acme.com`); null for free text. */
+  field: string | null;
+  value: string;
+  /** Written in double quotes, so matched as one string, spaces included. */
+  phrase: boolean;
+  negated: boolean;
+  /** Offsets of the whole token in the source text, end exclusive. */
+  start: number;
+  end: number;
+}
+
+/**
+ * A parsed query in disjunctive form: `OR` separates the clauses, and every
+ * term of a clause must hold.
+ */
+export interface QueryAst {
+  text: string;
+  clauses: QueryTerm[][];
+}
+
+/** A span of the source text, for rendering the query as chips. */
+export type QueryToken =
+  | {
+      kind: "term";
+      term: QueryTerm;
+      /** Set when the qualifier names no known field. */
+      unknownField?: string;
+    }
+  | { kind: "or"; start: number; end: number };
+
+export interface QueryDiagnostic {
+  start: number;
+  end: number;
+  message: string;
+}
+
+export interface ParsedQuery {
+  ast: QueryAst;
+  tokens: QueryToken[];
+  diagnostics: QueryDiagnostic[];
+}
+
+const QUALIFIER = /^([A-Za-z_][\w.]*):/;
+const WHITESPACE = /\s/;
+
+/**
+ * Parses `text` into terms and `OR` clauses. When `knownFields` is given,
+ * qualifiers outside it are reported and their token is searched as plain
+ * text instead, so `http://…` or `10:30` still find something.
+ */
+export const parseQuery = (
+  text: string,
+  knownFields?: readonly string[]
+): ParsedQuery => {
+  const known = knownFields && new Set(knownFields.map((f) => f.toLowerCase()));
+  const clauses: QueryTerm[][] = [[]];
+  const tokens: QueryToken[] = [];
+  const diagnostics: QueryDiagnostic[] = [];
+
+  let i = 0;
+  while (i < text.length) {
+    if (WHITESPACE.test(text[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated =
+      text[i] === "-" && i + 1 < text.length && !WHITESPACE.test(text[i + 1]);
+    if (negated) i++;
+    const bodyStart = i;
+
+    const qualifier = QUALIFIER.exec(text.slice(i));
+    let field = qualifier ? qualifier[1] : null;
+    if (qualifier) i += qualifier[0].length;
+
+    let value: string;
+    const phrase = text[i] === '"';
+    if (phrase) {
+      const close = text.indexOf('"', i + 1);
+      const valueEnd = close < 0 ? text.length : close;
+      value = text.slice(i + 1, valueEnd);
+      i = close < 0 ? text.length : close + 1;
+    } else {
+      let end = i;
+      while (end < text.length && !WHITESPACE.test(text[end])) end++;
+      value = text.slice(i, end);
+      i = end;
+    }
+
+    if (!negated && !field && !phrase && value === "OR") {
+      tokens.push({ kind: "or", start, end: i });
+      clauses.push([]);
+      continue;
+    }
+
+    let unknownField: string | undefined;
+    if (field && known && !known.has(field.toLowerCase())) {
+      unknownField = field;
+      diagnostics.push({
+        start,
+        end: i,
+        message: `Unknown field "${field}"; searched as text`,
+      });
+      field = null;
+      value = phrase ? `${unknownField}:${value}` : text.slice(bodyStart, i);
+    }
+
+    const term: QueryTerm = { field, value, phrase, negated, start, end: i };
+    tokens.push({ kind: "term", term, unknownField });
+    // A bare `email:` or `""` is still being typed; it doesn't constrain.
+    if (value) clauses[clauses.length - 1].push(term);
+  }
+
+  return {
+    ast: { text, clauses: clauses.filter((clause) => clause.length > 0) },
+    tokens,
+    diagnostics,
+  };
+};
+
+/** True when the query uses no syntax, so it can match as one string. */
+export const isPlainQuery = ({ clauses }: QueryAst): boolean =>
+  clauses.length <= 1 &&
+  (clauses[0] ?? []).every(
+    (term) => !term.field && !term.negated && !term.phrase
+  );
+
+const formatTerm = ({ field, value, phrase, negated }: QueryTerm): string =>
+  `${negated ? "-" : ""}${field ? `${field}:` : ""}${
+    phrase ? `"${value}"` : value
+  }`;
+
+/** Writes clauses back as query text, e.g. after lifting some terms out. */
+export const formatQuery = (clauses: QueryTerm[][]): string =>
+  clauses
+    .filter((clause) => clause.length > 0)
+    .map((clause) => clause.map(formatTerm).join(" "))
+    .join(" OR ");
+
+/** The strings worth highlighting in results: every non-negated value. */
+export const highlightTerms = (ast: QueryAst): string[] => {
+  if (isPlainQuery(ast)) {
+    const trimmed = ast.text.trim();
+    return trimmed ? [trimmed] : [];
+  }
+  return ast.clauses.flatMap((clause) =>
+    clause.flatMap((term) => (term.negated ? [] : [term.value]))
+  );
+};
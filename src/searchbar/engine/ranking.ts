@@ -0,0 +1,176 @@
+import {
+  getFieldNames,
+  getFieldStrings,
+  getQueryFieldNames,
+  toWeightedField,
+  type SearchField,
+} from "./fields";
+import { fuzzyScore } from "./fuzzy";
+import {
+  isPlainQuery,
+  parseQuery,
+  type QueryAst,
+  type QueryTerm,
+} from "./queryParser";
+
+// ============================================================================
+// RELEVANCE RANKING
+// ============================================================================
+
+export type MatchKind = "exact" | "prefix" | "word" | "substring" | "fuzzy";
+
+/**
+ * Base score per match kind, multiplied by the field's weight. Fuzzy
+ * matches are further scaled by their similarity, so any literal match
+ * outranks a typo-tolerant one.
+ */
+export const MATCH_SCORES: Record<MatchKind, number> = {
+  exact: 8,
+  prefix: 4,
+  word: 2,
+  substring: 1,
+  fuzzy: 0.5,
+};
+
+export interface MatchOptions {
+  /**
+   * Minimum similarity (0–1) for an approximate match. Leave unset to
+   * match literally only.
+   */
+  fuzzyThreshold?: number;
+}
+
+const isWordChar = (char: string) => /[\p{L}\p{N}]/u.test(char);
+
+/** Best way `lowerQuery` occurs literally in `text`, or null when it doesn't. */
+export const classifyMatch = (
+  text: string,
+  lowerQuery: string
+): Exclude<MatchKind, "fuzzy"> | null => {
+  const lowerText = text.toLowerCase();
+  if (lowerText === lowerQuery) return "exact";
+  if (lowerText.startsWith(lowerQuery)) return "prefix";
+
+  let index = lowerText.indexOf(lowerQuery);
+  if (index < 0) return null;
+  while (index >= 0) {
+    if (!isWordChar(lowerText[index - 1])) return "word";
+    index = lowerText.indexOf(lowerQuery, index + 1);
+  }
+  return "substring";
+};
+
+/**
+ * Sums, per field, the weighted score of that field's best match. An item
+ * matching in several fields outranks one matching in a single field.
+ */
+export const scoreItem = <T>(
+  item: T,
+  fields: SearchField<T>[],
+  query: string,
+  { fuzzyThreshold }: MatchOptions = {}
+): number => {
+  const lowerQuery = query.toLowerCase();
+
+  const scoreValue = (value: string): number => {
+    const kind = classifyMatch(value, lowerQuery);
+    if (kind) return MATCH_SCORES[kind];
+    if (fuzzyThreshold === undefined) return 0;
+
+    const closeness = fuzzyScore(value, lowerQuery);
+    return closeness >= fuzzyThreshold ? MATCH_SCORES.fuzzy * closeness : 0;
+  };
+
+  return fields.reduce((total, searchField) => {
+    const { field, weight } = toWeightedField(searchField);
+    const best = getFieldStrings(item, field).reduce(
+      (max, value) => Math.max(max, scoreValue(value)),
+      0
+    );
+    return total + best * weight;
+  }, 0);
+};
+
+/** Parses a raw query against the qualifiers `fields` accept. */
+export const toQueryAst = <T>(
+  query: string | QueryAst,
+  fields: SearchField<T>[]
+): QueryAst =>
+  typeof query === "string"
+    ? parseQuery(query, getQueryFieldNames(fields)).ast
+    : query;
+
+const scoreClause = <T>(
+  item: T,
+  fields: SearchField<T>[],
+  clause: QueryTerm[],
+  options: MatchOptions
+): number => {
+  let total = 0;
+  for (const term of clause) {
+    const field = term.field?.toLowerCase();
+    const targets = field
+      ? fields.filter((f) => getFieldNames(f).includes(field))
+      : fields;
+
+    // Exclusions and phrases are literal: a typo shouldn't hide a row.
+    if (term.negated) {
+      if (scoreItem(item, targets, term.value) > 0) return 0;
+      continue;
+    }
+    const score = scoreItem(
+      item,
+      targets,
+      term.value,
+      term.phrase ? {} : options
+    );
+    if (score === 0) return 0;
+    total += score;
+  }
+  // A clause of only exclusions matches whatever it doesn't exclude.
+  return total || MATCH_SCORES.substring;
+};
+
+/**
+ * Scores a parsed query: the best of its `OR` clauses, each the sum of its
+ * terms. Queries without syntax match as one string, as they always have.
+ */
+export const scoreQuery = <T>(
+  item: T,
+  fields: SearchField<T>[],
+  ast: QueryAst,
+  options: MatchOptions = {}
+): number =>
+  isPlainQuery(ast)
+    ? scoreItem(item, fields, ast.text.trim(), options)
+    : ast.clauses.reduce(
+        (best, clause) =>
+          Math.max(best, scoreClause(item, fields, clause, options)),
+        0
+      );
+
+/**
+ * Sorts `items` by descending score; ties keep their incoming order. Items
+ * that don't match are dropped unless `keepUnmatched` is set (for rows a
+ * server already decided are relevant).
+ */
+export const rankResults = <T>(
+  items: T[],
+  fields: SearchField<T>[],
+  query: string | QueryAst,
+  {
+    keepUnmatched = false,
+    ...matchOptions
+  }: MatchOptions & { keepUnmatched?: boolean } = {}
+): T[] => {
+  const ast = toQueryAst(query, fields);
+  return items
+    .map((item, index) => ({
+      item,
+      index,
+      score: scoreQuery(item, fields, ast, matchOptions),
+    }))
+    .filter(({ score }) => keepUnmatched || score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ item }) => item);
+};
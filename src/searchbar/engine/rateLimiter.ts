@@ -0,0 +1,165 @@
+export interface RateLimiterOptions {
+  /** Requests that may go out back to back. Defaults to `limit`. */
+  burst?: number;
+  /** First backoff after a 429/503 without `Retry-After`. */
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+/** Statuses that mean "slow down" rather than "broken". */
+export const THROTTLE_STATUSES = [429, 503];
+
+export const RATE_LIMIT_MESSAGE = "Rate limit exceeded. Please slow down.";
+
+/** Whether `error` is an HTTP throttling response (see `HttpError`). */
+export const isThrottleError = (error: unknown): boolean =>
+  typeof error === "object" &&
+  error !== null &&
+  "status" in error &&
+  THROTTLE_STATUSES.includes(error.status as number);
+
+/**
+ * Parses `Retry-After` (delta-seconds or an HTTP date) into a delay in ms.
+ */
+export const parseRetryAfter = (
+  value: string | null,
+  now: number = Date.now()
+): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * Parses `X-RateLimit-Reset` into an epoch time in ms. Servers send either
+ * epoch seconds or seconds until reset; small values are the latter.
+ */
+const parseRateLimitReset = (
+  value: string | null,
+  now: number
+): number | undefined => {
+  const seconds = Number(value);
+  if (!value || !Number.isFinite(seconds)) return undefined;
+  return seconds > 1e9 ? seconds * 1000 : now + seconds * 1000;
+};
+
+/**
+ * Token bucket: `limit` tokens refill evenly over `windowMs`, and up to
+ * `burst` can be spent at once. Server signals (`Retry-After`, 429/503,
+ * `X-RateLimit-*`) pause the bucket entirely until the server's time.
+ */
+export const createRateLimiter = (
+  limit: number,
+  windowMs: number = 60000,
+  {
+    burst = limit,
+    baseBackoffMs = 1000,
+    maxBackoffMs = 60000,
+  }: RateLimiterOptions = {}
+) => {
+  const refillPerMs = limit / windowMs;
+  let tokens = burst;
+  let lastRefill = Date.now();
+  let blockedUntil = 0;
+  let consecutiveBackoffs = 0;
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(burst, tokens + (now - lastRefill) * refillPerMs);
+    lastRefill = now;
+  };
+
+  const isBlocked = () => Date.now() < blockedUntil;
+
+  const blockUntil = (time: number) => {
+    blockedUntil = Math.max(blockedUntil, time);
+  };
+
+  return {
+    isLimited: () => {
+      refill();
+      return isBlocked() || tokens < 1;
+    },
+
+    /** Spends a token for a request about to go out. */
+    record: () => {
+      refill();
+      tokens = Math.max(0, tokens - 1);
+    },
+
+    reset: () => {
+      tokens = burst;
+      lastRefill = Date.now();
+      blockedUntil = 0;
+      consecutiveBackoffs = 0;
+    },
+
+    remaining: () => {
+      refill();
+      return isBlocked() ? 0 : Math.floor(tokens);
+    },
+
+    /** Epoch ms when the next request may go out, or null if it may now. */
+    nextAllowedAt: (): number | null => {
+      refill();
+      const now = Date.now();
+      const tokenAt = tokens >= 1 ? now : now + (1 - tokens) / refillPerMs;
+      const at = Math.max(blockedUntil, tokenAt);
+      return at > now ? Math.ceil(at) : null;
+    },
+
+    /**
+     * Pauses after a throttling response. Honours `Retry-After` and
+     * `X-RateLimit-Reset`; otherwise backs off exponentially with jitter.
+     */
+    backoff: (headers?: Headers) => {
+      const now = Date.now();
+      consecutiveBackoffs++;
+      tokens = 0;
+
+      const retryAfter = parseRetryAfter(
+        headers?.get("Retry-After") ?? null,
+        now
+      );
+      const reset = parseRateLimitReset(
+        headers?.get("X-RateLimit-Reset") ?? null,
+        now
+      );
+      if (retryAfter !== undefined || reset !== undefined) {
+        blockUntil(Math.max(now + (retryAfter ?? 0), reset ?? 0));
+        return;
+      }
+
+      const ceiling = Math.min(
+        maxBackoffMs,
+        baseBackoffMs * 2 ** (consecutiveBackoffs - 1)
+      );
+      // "Equal jitter": at least half the delay, so retries stay spread.
+      blockUntil(now + ceiling / 2 + Math.random() * (ceiling / 2));
+    },
+
+    /**
+     * Reconciles with the server's view after a successful response: an
+     * exhausted `X-RateLimit-Remaining` pauses until `X-RateLimit-Reset`.
+     */
+    observe: (headers?: Headers) => {
+      consecutiveBackoffs = 0;
+      const remaining = Number(headers?.get("X-RateLimit-Remaining") ?? NaN);
+      if (!Number.isFinite(remaining)) return;
+
+      refill();
+      tokens = Math.min(tokens, remaining);
+      if (remaining > 0) return;
+
+      const reset = parseRateLimitReset(
+        headers?.get("X-RateLimit-Reset") ?? null,
+        Date.now()
+      );
+      if (reset !== undefined) blockUntil(reset);
+    },
+  };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
@@ -0,0 +1,113 @@
+// ============================================================================
+// IN-FLIGHT REQUEST COALESCING
+// ============================================================================
+
+interface InFlight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+export interface CoalesceOptions {
+  /** The subscriber's own signal; aborting it only drops this subscriber. */
+  signal?: AbortSignal;
+  /** Called when the request joined one already in flight. */
+  onJoin?: () => void;
+}
+
+const abortError = () => new DOMException("Aborted", "AbortError");
+
+const anonymousScopes = new WeakMap<object, string>();
+let nextScope = 1;
+
+/**
+ * Request-key prefix for a transport: its `id` when it has one, so equal
+ * endpoints share requests across components, else a per-object id.
+ */
+export const requestScope = (target: object, id?: string): string => {
+  if (id) return id;
+  let scope = anonymousScopes.get(target);
+  if (!scope) {
+    scope = `anonymous-${nextScope++}`;
+    anonymousScopes.set(target, scope);
+  }
+  return scope;
+};
+
+/**
+ * Shares one in-flight promise between every caller asking for the same
+ * key. Subscribers are reference-counted: one leaving rejects only its own
+ * promise, and the underlying request is aborted when the last one leaves.
+ */
+export const createRequestCoalescer = () => {
+  const inFlight = new Map<string, InFlight>();
+
+  const open = (
+    key: string,
+    start: (signal: AbortSignal) => Promise<unknown>
+  ) => {
+    const controller = new AbortController();
+    const entry: InFlight = {
+      controller,
+      subscribers: 0,
+      promise: start(controller.signal),
+    };
+    const forget = () => {
+      if (inFlight.get(key) === entry) inFlight.delete(key);
+    };
+    entry.promise.then(forget, forget);
+    inFlight.set(key, entry);
+    return entry;
+  };
+
+  return {
+    /** Runs `start` unless `key` is already in flight, then subscribes. */
+    run: <R>(
+      key: string,
+      start: (signal: AbortSignal) => Promise<R>,
+      { signal, onJoin }: CoalesceOptions = {}
+    ): Promise<R> => {
+      if (signal?.aborted) return Promise.reject(abortError());
+
+      const existing = inFlight.get(key);
+      if (existing) onJoin?.();
+      const entry = existing ?? open(key, start);
+      entry.subscribers++;
+
+      return new Promise<R>((resolve, reject) => {
+        let done = false;
+        const leave = () => {
+          if (done) return false;
+          done = true;
+          signal?.removeEventListener("abort", onAbort);
+          entry.subscribers--;
+          return true;
+        };
+        const onAbort = () => {
+          if (!leave()) return;
+          if (entry.subscribers === 0) {
+            if (inFlight.get(key) === entry) inFlight.delete(key);
+            entry.controller.abort();
+          }
+          reject(abortError());
+        };
+
+        signal?.addEventListener("abort", onAbort, { once: true });
+        (entry.promise as Promise<R>).then(
+          (value) => leave() && resolve(value),
+          (error) => leave() && reject(error)
+        );
+      });
+    },
+
+    /** Number of distinct requests currently in flight. */
+    get size(): number {
+      return inFlight.size;
+    },
+  };
+};
+
+export type RequestCoalescer = ReturnType<typeof createRequestCoalescer>;
+
+/** Page-wide coalescer shared by every search component. */
+export const sharedRequests = createRequestCoalescer();
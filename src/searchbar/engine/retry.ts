@@ -0,0 +1,84 @@
+import { isThrottleError } from "./rateLimiter";
+
+// ============================================================================
+// RETRY WITH EXPONENTIAL BACKOFF
+// ============================================================================
+
+export interface RetryOptions {
+  /** Total tries, including the first. */
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  /** Checked before each retry; return false to give up (e.g. rate limited). */
+  canRetry?: () => boolean;
+  onRetry?: (attempt: number, error: unknown) => void;
+}
+
+const abortError = () => new DOMException("Aborted", "AbortError");
+
+/**
+ * Network failures (`fetch` rejects with a TypeError) and 5xx responses.
+ * Throttling statuses are left to the rate limiter's backoff.
+ */
+export const isTransientError = (error: unknown): boolean => {
+  if (error instanceof TypeError) return true;
+  if (isThrottleError(error)) return false;
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "status" in error &&
+    (error.status as number) >= 500
+  );
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Runs `task` until it succeeds, retrying transient failures with
+ * exponentially growing, jittered delays. Aborting `signal` cancels both
+ * the pending delay and further attempts.
+ */
+export const withRetry = async <R>(
+  task: (attempt: number) => Promise<R>,
+  {
+    maxAttempts = 3,
+    baseDelayMs = 300,
+    maxDelayMs = 5000,
+    signal,
+    canRetry = () => true,
+    onRetry,
+  }: RetryOptions = {}
+): Promise<R> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (
+        attempt >= maxAttempts ||
+        signal?.aborted ||
+        !isTransientError(error) ||
+        !canRetry()
+      ) {
+        throw error;
+      }
+
+      const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      onRetry?.(attempt, error);
+      await wait(ceiling / 2 + Math.random() * (ceiling / 2), signal);
+    }
+  }
+};
@@ -0,0 +1,151 @@
+import { DEFAULT_FUZZY_THRESHOLD, similarity } from "./fuzzy";
+import { createLruCache, estimateBytes, type LruCacheStats } from "./lruCache";
+import type { CacheEntry, PageInfo } from "./types";
+
+/** Local writes, as seen by a persistence layer. */
+export type SearchCacheEvent<T> =
+  { type: "set"; entry: CacheEntry<T> } | { type: "clear" };
+
+/** Cache key for one page of a query's results. */
+export const pageCacheKey = (query: string, page: number = 1): string =>
+  page <= 1 ? query : `${query}#page=${page}`;
+
+/**
+ * Whether an entry holds every row its query matched. Only then can a
+ * narrower query be answered from it without missing anything.
+ */
+const isComplete = <T>({ data, pageInfo }: CacheEntry<T>): boolean =>
+  !pageInfo ||
+  (pageInfo.page <= 1 &&
+    !pageInfo.hasMore &&
+    (pageInfo.total ?? 0) <= data.length);
+
+export interface SearchCacheOptions {
+  /** Most cached pages kept. */
+  maxSize?: number;
+  /** Approximate memory budget for cached rows, in bytes. */
+  maxBytes?: number;
+  /** Minimum similarity for reusing another query's rows. */
+  fuzzyThreshold?: number;
+}
+
+export const createSearchCache = <T>(
+  duration: number,
+  {
+    maxSize = 50,
+    maxBytes,
+    fuzzyThreshold = DEFAULT_FUZZY_THRESHOLD,
+  }: SearchCacheOptions = {}
+) => {
+  const cache = createLruCache<string, CacheEntry<T>>({
+    maxEntries: maxSize,
+    maxBytes,
+    ttl: duration,
+    sizeOf: (entry) => estimateBytes(entry.data),
+  });
+  const listeners = new Set<(event: SearchCacheEvent<T>) => void>();
+  const notify = (event: SearchCacheEvent<T>) =>
+    listeners.forEach((listener) => listener(event));
+
+  const store = (entry: CacheEntry<T>) =>
+    cache.set(
+      pageCacheKey(entry.query, entry.pageInfo?.page),
+      entry,
+      entry.timestamp
+    );
+
+  const getEntry = (query: string, page?: number): CacheEntry<T> | null =>
+    cache.get(pageCacheKey(query, page)) ?? null;
+
+  return {
+    get: (query: string, page?: number): T[] | null =>
+      getEntry(query, page)?.data ?? null,
+
+    getEntry,
+
+    set: (query: string, data: T[], pageInfo?: PageInfo): void => {
+      const entry = { query, data, pageInfo, timestamp: Date.now() };
+      store(entry);
+      notify({ type: "set", entry });
+    },
+
+    /**
+     * Adds an entry written elsewhere (storage, another tab), keeping its
+     * original timestamp. Expired or older-than-held entries are ignored,
+     * and subscribers are not notified.
+     */
+    restore: (entry: CacheEntry<T>): void => {
+      if (Date.now() - entry.timestamp > duration) return;
+      const held = cache.peek(pageCacheKey(entry.query, entry.pageInfo?.page));
+      if (held && held.timestamp >= entry.timestamp) return;
+      store(entry);
+    },
+
+    /**
+     * Finds cached rows that can stand in for `query`: those of a query it
+     * narrows ("john" for "john s") or of a near-identical one ("jonh" for
+     * "john"). The rows are a superset, not an answer; callers must
+     * re-filter them against `query`.
+     */
+    fuzzyMatch: (query: string): T[] | null => {
+      const lowerQuery = query.toLowerCase();
+      let best: T[] | null = null;
+      let bestScore = 0;
+
+      for (const entry of cache.values()) {
+        if (entry.data.length === 0 || !isComplete(entry)) continue;
+
+        const lowerCached = entry.query.toLowerCase();
+        // Narrowed queries score above 1; the longest cached prefix wins.
+        const score = lowerQuery.startsWith(lowerCached)
+          ? 1 + lowerCached.length / lowerQuery.length
+          : similarity(lowerCached, lowerQuery);
+
+        if (score >= fuzzyThreshold && score > bestScore) {
+          best = entry.data;
+          bestScore = score;
+        }
+      }
+
+      return best;
+    },
+
+    /** Distinct queries that returned rows, most recently used first. */
+    queries: (): string[] => {
+      const seen = new Set<string>();
+      for (const entry of cache.values().reverse()) {
+        if (entry.data.length > 0) seen.add(entry.query);
+      }
+      return Array.from(seen);
+    },
+
+    clear: (): void => {
+      cache.clear();
+      notify({ type: "clear" });
+    },
+
+    subscribe: (listener: (event: SearchCacheEvent<T>) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    /** Drops expired pages every `intervalMs`; returns a stop function. */
+    schedulePurge: cache.schedulePurge,
+
+    get size(): number {
+      return cache.size;
+    },
+
+    get bytes(): number {
+      return cache.bytes;
+    },
+
+    get stats(): LruCacheStats {
+      return cache.stats;
+    },
+  };
+};
+
+export type SearchCache<T> = ReturnType<typeof createSearchCache<T>>;
@@ -0,0 +1,149 @@
+// ============================================================================
+// RECENT SEARCHES AND PINNED FAVORITES
+// ============================================================================
+
+interface HistoryItemBase {
+  /** Stable id: `query:<text>` or `entity:<key>`. */
+  id: string;
+  pinned: boolean;
+  /** Epoch ms of the last use. */
+  timestamp: number;
+}
+
+export interface HistoryQuery extends HistoryItemBase {
+  kind: "query";
+  query: string;
+}
+
+export interface HistoryEntity<T> extends HistoryItemBase {
+  kind: "entity";
+  key: string | number;
+  label: string;
+  /** Stored as JSON, so it must be serializable. */
+  entity: T;
+}
+
+export type HistoryItem<T> = HistoryQuery | HistoryEntity<T>;
+
+export interface SearchHistoryOptions {
+  /**
+   * Storage key; include the user id so people sharing a browser keep
+   * separate histories, e.g. `${userId}:clients`.
+   */
+  storageKey: string;
+  /** Unpinned queries and entities kept, each. Pinned items don't count. */
+  maxRecent?: number;
+}
+
+const STORAGE_PREFIX = "adaptive-search:history:";
+
+const readItems = <T>(storageKey: string): HistoryItem<T>[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + storageKey);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    // Storage disabled or a corrupt value; start empty.
+    return [];
+  }
+};
+
+/** Pinned first, then most recent first. */
+const byPinThenRecency = <T>(a: HistoryItem<T>, b: HistoryItem<T>) =>
+  Number(b.pinned) - Number(a.pinned) || b.timestamp - a.timestamp;
+
+/**
+ * Per-user search history in localStorage: recent queries, recently
+ * selected entities and pinned favorites. Other tabs' changes arrive
+ * through the `storage` event while anyone is subscribed.
+ */
+export const createSearchHistory = <T>({
+  storageKey,
+  maxRecent = 8,
+}: SearchHistoryOptions) => {
+  let items = readItems<T>(storageKey).sort(byPinThenRecency);
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const commit = (next: HistoryItem<T>[]) => {
+    const counts = { query: 0, entity: 0 };
+    items = next.sort(byPinThenRecency).filter((item) => {
+      if (item.pinned) return true;
+      return ++counts[item.kind] <= maxRecent;
+    });
+    try {
+      localStorage.setItem(STORAGE_PREFIX + storageKey, JSON.stringify(items));
+    } catch {
+      // Quota or disabled storage; keep the in-memory history.
+    }
+    notify();
+  };
+
+  /** Moves `item` to the top of the recents, keeping its pin. */
+  const touch = (item: HistoryItem<T>) => {
+    const existing = items.find(({ id }) => id === item.id);
+    commit([
+      ...items.filter(({ id }) => id !== item.id),
+      { ...item, pinned: existing?.pinned ?? false },
+    ]);
+  };
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_PREFIX + storageKey) return;
+    items = readItems<T>(storageKey).sort(byPinThenRecency);
+    notify();
+  };
+
+  return {
+    /** Pinned items first, then recents. Same array until a change. */
+    items: (): HistoryItem<T>[] => items,
+
+    addQuery: (query: string): void => {
+      const text = query.trim();
+      if (!text) return;
+      touch({
+        kind: "query",
+        id: `query:${text.toLowerCase()}`,
+        query: text,
+        pinned: false,
+        timestamp: Date.now(),
+      });
+    },
+
+    addEntity: (entity: T, key: string | number, label: string): void =>
+      touch({
+        kind: "entity",
+        id: `entity:${key}`,
+        key,
+        label,
+        entity,
+        pinned: false,
+        timestamp: Date.now(),
+      }),
+
+    togglePin: (id: string): void =>
+      commit(
+        items.map((item) =>
+          item.id === id ? { ...item, pinned: !item.pinned } : item
+        )
+      ),
+
+    remove: (id: string): void =>
+      commit(items.filter((item) => item.id !== id)),
+
+    /** Drops every recent item; pinned favorites stay. */
+    clearRecent: (): void => commit(items.filter((item) => item.pinned)),
+
+    subscribe: (listener: () => void): (() => void) => {
+      if (listeners.size === 0) addEventListener("storage", onStorage);
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) removeEventListener("storage", onStorage);
+      };
+    },
+  };
+};
+
+export type SearchHistory<T> = ReturnType<typeof createSearchHistory<T>>;
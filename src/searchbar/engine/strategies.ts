@@ -0,0 +1,233 @@
+import {
+  isThrottleError,
+  RATE_LIMIT_MESSAGE,
+  type RateLimiter,
+} from "./rateLimiter";
+import type { SearchCache } from "./searchCache";
+import type {
+  ApiSearchFn,
+  LocalSearchFn,
+  RefineFn,
+  SearchResult,
+} from "./types";
+
+// ============================================================================
+// SEARCH STRATEGY IMPLEMENTATIONS
+// ============================================================================
+
+export interface SearchStrategyExecutor<T> {
+  execute: (
+    query: string,
+    apiSearch: ApiSearchFn<T>,
+    localSearch: LocalSearchFn<T>,
+    refine: RefineFn<T>
+  ) => Promise<SearchResult<T>>;
+}
+
+/**
+ * Answers `query` from a related cached result set, re-filtered so rows
+ * that only matched the cached query are dropped. Null when nothing fits.
+ */
+const searchRelatedCache = <T>(
+  cache: SearchCache<T>,
+  query: string,
+  refine: RefineFn<T>
+): SearchResult<T> | null => {
+  const related = cache.fuzzyMatch(query);
+  if (!related) return null;
+
+  const data = refine(query, related);
+  return data.length > 0 ? { data, source: "cache" } : null;
+};
+
+const rateLimitedResult = <T>(
+  rateLimiter: RateLimiter,
+  data: T[] = [],
+  error: string = RATE_LIMIT_MESSAGE
+): SearchResult<T> => ({
+  data,
+  source: "rate_limited",
+  error,
+  retryAt: rateLimiter.nextAllowedAt() ?? undefined,
+});
+
+const createApiSearcher = <T>(
+  cache: SearchCache<T>,
+  rateLimiter: RateLimiter
+) => {
+  return async (
+    query: string,
+    apiSearch: ApiSearchFn<T>
+  ): Promise<SearchResult<T>> => {
+    if (rateLimiter.isLimited()) return rateLimitedResult(rateLimiter);
+
+    try {
+      const { data, pageInfo } = await apiSearch(query);
+      cache.set(query, data, pageInfo);
+      return { data, source: "api", pageInfo };
+    } catch (error) {
+      // Superseded requests are not failures; let the caller drop them.
+      if (error instanceof Error && error.name === "AbortError") throw error;
+      // `apiSearch` has already told the limiter to back off.
+      if (isThrottleError(error)) return rateLimitedResult(rateLimiter);
+      return {
+        data: [],
+        source: "api",
+        error: error instanceof Error ? error.message : "Search failed",
+      };
+    }
+  };
+};
+
+export const createInstantSearchStrategy = <T>(
+  cache: SearchCache<T>,
+  rateLimiter: RateLimiter
+): SearchStrategyExecutor<T> => {
+  const tryApiSearch = createApiSearcher(cache, rateLimiter);
+
+  return {
+    execute: async (query, apiSearch) => {
+      return tryApiSearch(query, apiSearch);
+    },
+  };
+};
+
+export interface BalancedStrategyOptions {
+  /** Show cached rows right away and refresh them in the background. */
+  staleWhileRevalidate?: boolean;
+  /** Exact cache hits younger than this (ms) are not refreshed. */
+  staleTime?: number;
+}
+
+export const createBalancedSearchStrategy = <T>(
+  cache: SearchCache<T>,
+  rateLimiter: RateLimiter,
+  { staleWhileRevalidate = false, staleTime = 0 }: BalancedStrategyOptions = {}
+): SearchStrategyExecutor<T> => {
+  const tryApiSearch = createApiSearcher(cache, rateLimiter);
+
+  // The refresh starts now; the caller decides whether to wait for it.
+  const revalidate = (
+    result: SearchResult<T>,
+    query: string,
+    apiSearch: ApiSearchFn<T>
+  ): SearchResult<T> =>
+    rateLimiter.isLimited()
+      ? result
+      : {
+          ...result,
+          stale: true,
+          revalidation: tryApiSearch(query, apiSearch),
+        };
+
+  return {
+    execute: async (query, apiSearch, localSearch, refine) => {
+      const cached = cache.getEntry(query);
+      if (cached) {
+        const result: SearchResult<T> = {
+          data: cached.data,
+          source: "cache",
+          pageInfo: cached.pageInfo,
+        };
+        const isStale = Date.now() - cached.timestamp > staleTime;
+        return staleWhileRevalidate && isStale
+          ? revalidate(result, query, apiSearch)
+          : result;
+      }
+
+      const related = searchRelatedCache(cache, query, refine);
+      if (related) {
+        // Rows borrowed from another query are always worth confirming.
+        return staleWhileRevalidate
+          ? revalidate(related, query, apiSearch)
+          : related;
+      }
+
+      const apiResult = await tryApiSearch(query, apiSearch);
+      if (apiResult.error && apiResult.data.length === 0) {
+        const localData = localSearch(query);
+        if (localData.length > 0) {
+          return {
+            data: localData,
+            source: "local",
+            error: "Showing local results (API unavailable)",
+          };
+        }
+      }
+
+      return apiResult;
+    },
+  };
+};
+
+export const createConservativeSearchStrategy = <T>(
+  cache: SearchCache<T>,
+  rateLimiter: RateLimiter
+): SearchStrategyExecutor<T> => {
+  const tryApiSearch = createApiSearcher(cache, rateLimiter);
+
+  return {
+    execute: async (query, apiSearch, localSearch, refine) => {
+      if (query.length <= 3) {
+        const localData = localSearch(query);
+        return {
+          data: localData,
+          source: "local",
+          error:
+            localData.length === 0
+              ? "Type more characters for API search"
+              : undefined,
+        };
+      }
+
+      const cached = cache.getEntry(query);
+      if (cached) {
+        return {
+          data: cached.data,
+          source: "cache",
+          pageInfo: cached.pageInfo,
+        };
+      }
+
+      const related = searchRelatedCache(cache, query, refine);
+      if (related) return related;
+
+      if (rateLimiter.isLimited()) {
+        return rateLimitedResult(
+          rateLimiter,
+          localSearch(query),
+          "Rate limited. Showing local results."
+        );
+      }
+
+      return tryApiSearch(query, apiSearch);
+    },
+  };
+};
+
+export const createManualSearchStrategy = <T>(
+  cache: SearchCache<T>
+): SearchStrategyExecutor<T> => {
+  return {
+    execute: async (query, _apiSearch, localSearch) => {
+      const cached = cache.getEntry(query);
+      if (cached) {
+        return {
+          data: cached.data,
+          source: "cache",
+          pageInfo: cached.pageInfo,
+        };
+      }
+
+      const localData = localSearch(query);
+      return {
+        data: localData,
+        source: "local",
+        error:
+          localData.length === 0
+            ? "No local results. Press Enter for API search."
+            : undefined,
+      };
+    },
+  };
+};
@@ -0,0 +1,92 @@
+import type { ReactNode } from "react";
+import type { RateLimiter } from "./rateLimiter";
+import type { SearchCache } from "./searchCache";
+import type { SearchStrategyExecutor } from "./strategies";
+
+// ============================================================================
+// STRATEGY REGISTRY
+// ============================================================================
+
+/** What the strategy selector shows for a strategy. */
+export interface StrategyMetadata {
+  /** Value of `searchMode` while the strategy is selected. */
+  id: string;
+  name: string;
+  description: string;
+  icon?: ReactNode;
+  recommendedFor: string;
+}
+
+/**
+ * Shared state a strategy is built from. The local search and API search
+ * functions are passed to `execute` on every call.
+ */
+export interface StrategyDependencies<T> {
+  cache: SearchCache<T>;
+  rateLimiter: RateLimiter;
+  /** Stale-while-revalidate settings from `useAdaptiveSearch`. */
+  staleWhileRevalidate: boolean;
+  staleTime: number;
+}
+
+export interface StrategyDefinition<T> extends StrategyMetadata {
+  /** Called once per search instance, and again when dependencies change. */
+  create: (dependencies: StrategyDependencies<T>) => SearchStrategyExecutor<T>;
+}
+
+/** Reserved for auto mode, which picks among the built-in strategies. */
+const RESERVED_IDS = ["auto"];
+
+/**
+ * Ordered set of strategies keyed by id. Registering an existing id
+ * replaces it in place, so built-ins can be overridden. `list` returns the
+ * same array until the registry changes (safe for `useSyncExternalStore`).
+ */
+export const createStrategyRegistry = <T>(
+  initial: StrategyDefinition<T>[] = []
+) => {
+  const definitions = new Map<string, StrategyDefinition<T>>();
+  const listeners = new Set<() => void>();
+  let snapshot: StrategyDefinition<T>[] = [];
+
+  const commit = () => {
+    snapshot = Array.from(definitions.values());
+    listeners.forEach((listener) => listener());
+  };
+
+  const unregister = (id: string): boolean => {
+    if (!definitions.delete(id)) return false;
+    commit();
+    return true;
+  };
+
+  const register = (definition: StrategyDefinition<T>): (() => void) => {
+    if (RESERVED_IDS.includes(definition.id)) {
+      throw new Error(`Strategy id "${definition.id}" is reserved`);
+    }
+    definitions.set(definition.id, definition);
+    commit();
+    return () => {
+      if (definitions.get(definition.id) === definition) {
+        unregister(definition.id);
+      }
+    };
+  };
+
+  initial.forEach((definition) => definitions.set(definition.id, definition));
+  snapshot = Array.from(definitions.values());
+
+  return {
+    /** Adds or replaces a strategy; returns a function that removes it. */
+    register,
+    unregister,
+    get: (id: string): StrategyDefinition<T> | undefined => definitions.get(id),
+    list: (): StrategyDefinition<T>[] => snapshot,
+    subscribe: (listener: () => void): (() => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+export type StrategyRegistry<T> = ReturnType<typeof createStrategyRegistry<T>>;
@@ -0,0 +1,59 @@
+// ============================================================================
+// QUERY SUGGESTIONS
+// ============================================================================
+
+/** Where a suggestion came from, in priority order. */
+export type SuggestionSource = "history" | "cache" | "server";
+
+export interface QuerySuggestion {
+  text: string;
+  source: SuggestionSource;
+}
+
+/**
+ * Merges suggestion lists, earlier lists first, dropping duplicates
+ * (case-insensitively) and the query itself. Local sources must complete
+ * the query; server suggestions are trusted as-is.
+ */
+export const mergeSuggestions = (
+  query: string,
+  sources: QuerySuggestion[][],
+  limit: number
+): QuerySuggestion[] => {
+  const lowerQuery = query.trim().toLowerCase();
+  if (!lowerQuery) return [];
+
+  const seen = new Set([lowerQuery]);
+  const merged: QuerySuggestion[] = [];
+  for (const suggestion of sources.flat()) {
+    const lowerText = suggestion.text.trim().toLowerCase();
+    if (!lowerText || seen.has(lowerText)) continue;
+    if (suggestion.source !== "server" && !lowerText.startsWith(lowerQuery)) {
+      continue;
+    }
+    seen.add(lowerText);
+    merged.push(suggestion);
+    if (merged.length >= limit) break;
+  }
+  return merged;
+};
+
+/**
+ * The suggestion to show as ghost text: the first that extends what was
+ * typed. Null when none does (server suggestions may not).
+ */
+export const findCompletion = (
+  query: string,
+  suggestions: QuerySuggestion[]
+): QuerySuggestion | null => {
+  const lowerQuery = query.toLowerCase();
+  if (!lowerQuery.trim()) return null;
+  return (
+    suggestions.find(({ text }) => {
+      const lowerText = text.toLowerCase();
+      return (
+        lowerText.length > lowerQuery.length && lowerText.startsWith(lowerQuery)
+      );
+    }) ?? null
+  );
+};
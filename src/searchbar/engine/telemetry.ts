@@ -0,0 +1,272 @@
+import type { SearchMode, SearchSource } from "./types";
+
+// ============================================================================
+// SEARCH TELEMETRY: EVENTS, SINKS AND SUMMARIES
+// ============================================================================
+
+interface BaseEvent {
+  /** Epoch ms. */
+  timestamp: number;
+  /** Trimmed query the event belongs to. */
+  query: string;
+}
+
+export type SearchEvent =
+  | (BaseEvent & {
+      type: "query_issued";
+      /** Selected mode, and the strategy auto mode picked for it. */
+      mode: SearchMode;
+      strategy: SearchMode;
+    })
+  | (BaseEvent & {
+      type: "source_resolved";
+      source: SearchSource;
+      resultCount: number;
+      stale: boolean;
+    })
+  | (BaseEvent & {
+      type: "latency";
+      /** From issuing the search to results on screen. */
+      durationMs: number;
+      source: SearchSource;
+    })
+  | (BaseEvent & { type: "error"; message: string })
+  | (BaseEvent & { type: "rate_limited"; retryAt: number | null })
+  | (BaseEvent & {
+      type: "selection";
+      /** 1-based position of the chosen row. */
+      rank: number;
+      key?: string | number;
+    })
+  | (BaseEvent & {
+      type: "abandoned";
+      /** Rows on screen when the user gave up. */
+      resultCount: number;
+    });
+
+export type SearchEventType = SearchEvent["type"];
+
+type Unstamped<E> = E extends unknown ? Omit<E, "timestamp"> : never;
+
+/** An event before `createTelemetry` stamps it. */
+export type SearchEventInput = Unstamped<SearchEvent>;
+
+/** Destination for search events. Sinks must not throw into the search. */
+export interface TelemetrySink {
+  emit: (event: SearchEvent) => void;
+  /** Sends anything buffered; called when the page is hidden. */
+  flush?: () => void;
+}
+
+/**
+ * Fans events out to every sink. A failing sink is skipped so analytics
+ * can never break a search.
+ */
+export const createTelemetry = (sinks: TelemetrySink[]) => ({
+  emit: (input: SearchEventInput): void => {
+    const event = { ...input, timestamp: Date.now() } as SearchEvent;
+    sinks.forEach((sink) => {
+      try {
+        sink.emit(event);
+      } catch {
+        // Telemetry is best-effort.
+      }
+    });
+  },
+
+  flush: (): void => sinks.forEach((sink) => sink.flush?.()),
+});
+
+export type Telemetry = ReturnType<typeof createTelemetry>;
+
+// ----------------------------------------------------------------------------
+// Sinks
+// ----------------------------------------------------------------------------
+
+/** Logs every event; meant for development. */
+export const createConsoleSink = (label = "[search]"): TelemetrySink => ({
+  emit: (event) => console.debug(label, event.type, event),
+});
+
+/**
+ * Keeps the most recent `maxEvents` events in memory, for the stats panel
+ * and for tests.
+ */
+export const createMemorySink = (maxEvents = 500) => {
+  let events: SearchEvent[] = [];
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach((listener) => listener());
+
+  return {
+    emit: (event: SearchEvent): void => {
+      events = [...events, event].slice(-maxEvents);
+      notify();
+    },
+    /** Buffered events, oldest first. Returns a new array per change. */
+    events: (): SearchEvent[] => events,
+    clear: (): void => {
+      events = [];
+      notify();
+    },
+    subscribe: (listener: () => void): (() => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+export type MemorySink = ReturnType<typeof createMemorySink>;
+
+export interface BeaconSinkOptions {
+  /** Endpoint receiving a JSON array of events per batch. */
+  url: string;
+  /** Events per request. */
+  batchSize?: number;
+  /** Longest an event waits in the buffer, in ms. */
+  flushInterval?: number;
+}
+
+/**
+ * Batches events and posts them with `navigator.sendBeacon`, which survives
+ * page unloads, or `fetch` with `keepalive` where beacons are missing or
+ * refuse the payload. Flushes when the page is hidden.
+ */
+export const createBeaconSink = ({
+  url,
+  batchSize = 20,
+  flushInterval = 5000,
+}: BeaconSinkOptions) => {
+  const buffer: SearchEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const send = (batch: SearchEvent[]) => {
+    const body = JSON.stringify(batch);
+    const sent =
+      typeof navigator !== "undefined" &&
+      typeof navigator.sendBeacon === "function" &&
+      navigator.sendBeacon(url, new Blob([body], { type: "application/json" }));
+    if (!sent) {
+      fetch(url, {
+        method: "POST",
+        body,
+        headers: { "Content-Type": "application/json" },
+        keepalive: true,
+      }).catch(() => {
+        // Dropped; analytics don't retry.
+      });
+    }
+  };
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    while (buffer.length > 0) send(buffer.splice(0, batchSize));
+  };
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === "hidden") flush();
+  };
+  if (typeof document !== "undefined") {
+    document.addEventListener("visibilitychange", onVisibilityChange);
+  }
+
+  return {
+    emit: (event: SearchEvent): void => {
+      buffer.push(event);
+      if (buffer.length >= batchSize) flush();
+      else timer ??= setTimeout(flush, flushInterval);
+    },
+    flush,
+    /** Sends what's buffered and stops listening for page hide. */
+    dispose: (): void => {
+      flush();
+      if (typeof document !== "undefined") {
+        document.removeEventListener("visibilitychange", onVisibilityChange);
+      }
+    },
+  };
+};
+
+// ----------------------------------------------------------------------------
+// Summaries
+// ----------------------------------------------------------------------------
+
+/** Nearest-rank percentile of ascending `sorted`; null when empty. */
+export const percentile = (sorted: number[], p: number): number | null => {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+};
+
+export interface SearchAnalytics {
+  queries: number;
+  selections: number;
+  abandoned: number;
+  errors: number;
+  rateLimited: number;
+  latency: {
+    p50: number | null;
+    p90: number | null;
+    p99: number | null;
+  };
+  /** Selections per issued query, 0–1; null before any query. */
+  clickThroughRate: number | null;
+  /** Mean 1-based rank of selected rows; null before any selection. */
+  meanSelectionRank: number | null;
+  /** Selections at rank 1, 2, 3 and 4 or lower. */
+  rankDistribution: [number, number, number, number];
+}
+
+export const summarizeEvents = (events: SearchEvent[]): SearchAnalytics => {
+  const latencies: number[] = [];
+  const ranks: number[] = [];
+  const counts = { queries: 0, abandoned: 0, errors: 0, rateLimited: 0 };
+
+  for (const event of events) {
+    switch (event.type) {
+      case "query_issued":
+        counts.queries++;
+        break;
+      case "latency":
+        latencies.push(event.durationMs);
+        break;
+      case "selection":
+        ranks.push(event.rank);
+        break;
+      case "abandoned":
+        counts.abandoned++;
+        break;
+      case "error":
+        counts.errors++;
+        break;
+      case "rate_limited":
+        counts.rateLimited++;
+        break;
+    }
+  }
+
+  latencies.sort((a, b) => a - b);
+  const rankDistribution: SearchAnalytics["rankDistribution"] = [0, 0, 0, 0];
+  ranks.forEach(
+    (rank) => rankDistribution[Math.min(Math.max(rank, 1), 4) - 1]++
+  );
+
+  return {
+    ...counts,
+    selections: ranks.length,
+    latency: {
+      p50: percentile(latencies, 50),
+      p90: percentile(latencies, 90),
+      p99: percentile(latencies, 99),
+    },
+    clickThroughRate:
+      counts.queries > 0 ? Math.min(1, ranks.length / counts.queries) : null,
+    meanSelectionRank:
+      ranks.length > 0
+        ? ranks.reduce((sum, rank) => sum + rank, 0) / ranks.length
+        : null,
+    rankDistribution,
+  };
+};
@@ -0,0 +1,70 @@
+// ============================================================================
+// SEARCH ENGINE TYPES
+// ============================================================================
+
+export type StrategyMode = "instant" | "balanced" | "conservative" | "manual";
+
+/**
+ * A built-in strategy, the id of one added to a strategy registry, or
+ * `auto` to pick a built-in per search from live signals.
+ */
+export type SearchMode = StrategyMode | "auto" | (string & {});
+
+export type SearchSource = "cache" | "api" | "local" | "rate_limited";
+
+/** Where a result set sits in the server's full result list. */
+export interface PageInfo {
+  /** 1-based page index; cursor pagination still counts pages. */
+  page: number;
+  /** Server-reported match count, when known. */
+  total?: number;
+  nextCursor?: string | null;
+  hasMore: boolean;
+}
+
+export interface SearchPage<T> {
+  data: T[];
+  pageInfo?: PageInfo;
+}
+
+export interface CacheEntry<T> {
+  query: string;
+  data: T[];
+  pageInfo?: PageInfo;
+  timestamp: number;
+}
+
+export interface SearchStats {
+  apiCalls: number;
+  cacheHits: number;
+  /** Cache hits served as-is, within their fresh window. */
+  freshHits: number;
+  /** Cache hits shown immediately and refreshed in the background. */
+  staleHits: number;
+  /** Background refreshes that changed the rows on screen. */
+  backgroundUpdates: number;
+  localSearches: number;
+  /** Searches refused by the rate limiter. */
+  rateLimited: number;
+  /** Transient failures retried automatically. */
+  retries: number;
+  /** API requests that joined an identical one already in flight. */
+  sharedRequests: number;
+}
+
+export interface SearchResult<T> {
+  data: T[];
+  source: SearchSource;
+  error?: string;
+  pageInfo?: PageInfo;
+  /** `data` may be outdated; `revalidation` resolves with the fresh rows. */
+  stale?: boolean;
+  revalidation?: Promise<SearchResult<T>>;
+  /** Epoch ms when a rate-limited search may be retried. */
+  retryAt?: number;
+}
+
+export type ApiSearchFn<T> = (query: string) => Promise<SearchPage<T>>;
+export type LocalSearchFn<T> = (query: string) => T[];
+/** Narrows previously fetched rows down to those matching `query`. */
+export type RefineFn<T> = (query: string, items: T[]) => T[];
@@ -0,0 +1,36 @@
+import DefaultResultRow from "../components/DefaultResultRow";
+import type { FieldAccessor, SearchField } from "../engine/fields";
+import type { ResultRenderContext } from "../types";
+
+// JSONPlaceholder-shaped user, the demo entity for the search components.
+export interface User {
+  id: number;
+  name: string;
+  email: string;
+  company: {
+    name: string;
+  };
+}
+
+// Name matches count double: users are looked up by name far more often.
+// Company matches count half, so they rank below any name or email hit.
+export const userSearchFields: SearchField<User>[] = [
+  { field: "name", weight: 2 },
+  "email",
+  { field: "company.name", weight: 0.5 },
+];
+
+const userDisplayFields: FieldAccessor<User>[] = [
+  "name",
+  "email",
+  "company.name",
+];
+
+export const getUserKey = (user: User) => user.id;
+
+export const getUserLabel = (user: User) => user.name;
+
+export const renderUserResult = (
+  user: User,
+  { query }: ResultRenderContext
+) => <DefaultResultRow item={user} fields={userDisplayFields} query={query} />;
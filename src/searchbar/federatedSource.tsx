@@ -0,0 +1,67 @@
+import type { ReactNode } from "react";
+import FederatedSection from "./components/FederatedSection";
+import type { SearchAdapter } from "./adapters/types";
+import type { SearchMode } from "./engine/types";
+import type { SearchEntityProps } from "./types";
+
+// ============================================================================
+// FEDERATED SEARCH SOURCES
+// ============================================================================
+
+/** One backend in a federated search, with its own transport and tuning. */
+export interface FederatedSourceConfig<T> extends Omit<
+  SearchEntityProps<T>,
+  "multiple" | "selected" | "onSelectionChange"
+> {
+  /** Stable id; also keeps this source's rows apart in the combobox. */
+  id: string;
+  /** Section heading, e.g. "Clients". */
+  label: string;
+  adapter: SearchAdapter<T>;
+  /** Defaults to balanced. Manual mode isn't useful here: there's no submit. */
+  strategy?: SearchMode;
+  /** Rows shown in the section. Defaults to 5. */
+  limit?: number;
+  /** Target of the section's "See all" link. Omit to hide the link. */
+  seeAllHref?: (query: string) => string;
+}
+
+/** A result row as the shared combobox sees it. */
+export interface FederatedRow {
+  key: string | number;
+  select: () => void;
+}
+
+/** What the federated search hands every section. */
+export interface FederatedSlot {
+  query: string;
+  minQueryLength: number;
+  debounceMs: number;
+  /** Index of the section's first row in the combined option list. */
+  offset: number;
+  activeIndex: number;
+  getOptionId: (index: number) => string;
+  onActivate: (index: number) => void;
+  /** Reports the section's current rows, in order. */
+  onRowsChange: (sourceId: string, rows: FederatedRow[]) => void;
+  /** A row was picked; `label` goes into the input. */
+  onPicked: (label: string) => void;
+}
+
+/**
+ * A source with its entity type erased, so sources of different types can
+ * share one array. The type lives on in the section it renders.
+ */
+export interface FederatedSource {
+  id: string;
+  label: string;
+  renderSection: (slot: FederatedSlot) => ReactNode;
+}
+
+export const createFederatedSource = <T,>(
+  source: FederatedSourceConfig<T>
+): FederatedSource => ({
+  id: source.id,
+  label: source.label,
+  renderSection: (slot) => <FederatedSection source={source} {...slot} />,
+});
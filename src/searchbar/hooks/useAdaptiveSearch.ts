@@ -0,0 +1,1037 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import {
+  createRateLimiter,
+  isThrottleError,
+  RATE_LIMIT_MESSAGE,
+} from "../engine/rateLimiter";
+import { createSearchCache } from "../engine/searchCache";
+import {
+  createStrategyRegistry,
+  type StrategyRegistry,
+} from "../engine/strategyRegistry";
+import { builtinStrategies } from "../builtinStrategies";
+import { rankResults } from "../engine/ranking";
+import { parseQuery } from "../engine/queryParser";
+import { DEFAULT_FUZZY_THRESHOLD } from "../engine/fuzzy";
+import { attachPersistentStore } from "../engine/persistentCache";
+import { createLruCache } from "../engine/lruCache";
+import { withRetry } from "../engine/retry";
+import { createCircuitBreaker } from "../engine/circuitBreaker";
+import { requestScope, sharedRequests } from "../engine/requestCoalescer";
+import {
+  chooseSearchMode,
+  readConnectionHints,
+  smooth,
+  type AutoDecision,
+} from "../engine/autoStrategy";
+import {
+  createMemorySink,
+  createTelemetry,
+  summarizeEvents,
+  type SearchEventInput,
+  type TelemetrySink,
+} from "../engine/telemetry";
+import { getQueryFieldNames, type SearchField } from "../engine/fields";
+import type {
+  PageInfo,
+  SearchMode,
+  SearchPage,
+  SearchResult,
+  SearchSource,
+  SearchStats,
+} from "../engine/types";
+import useDebounce from "./useDebounce";
+import { createRestAdapter } from "../adapters/restAdapter";
+import {
+  HttpError,
+  type SearchAdapter,
+  type SearchResponse,
+} from "../adapters/types";
+
+export interface UseAdaptiveSearchOptions<T> {
+  /** Transport for API searches. Takes precedence over `apiEndpoint`. */
+  adapter?: SearchAdapter<T>;
+  /** Shorthand for a REST adapter with default options. */
+  apiEndpoint?: string | ((query: string) => string);
+  debounceMs?: number;
+  minQueryLength?: number;
+  maxResults?: number;
+  defaultStrategy?: SearchMode;
+  /**
+   * Strategies available to `setSearchMode`. Defaults to the built-ins;
+   * strategies registered later are picked up without a remount.
+   */
+  strategyRegistry?: StrategyRegistry<T>;
+  rateLimit?: number;
+  rateLimitWindow?: number;
+  /** Requests allowed back to back before the limiter paces them. */
+  rateLimitBurst?: number;
+  /** Extra attempts for network errors and 5xx responses. */
+  maxRetries?: number;
+  /** First retry delay (ms); doubles per attempt, with jitter. */
+  retryBaseDelay?: number;
+  /** Consecutive failed searches before switching to local-only mode. */
+  failureThreshold?: number;
+  /** How long (ms) local-only mode lasts before the API is tried again. */
+  circuitCooldown?: number;
+  /**
+   * Share identical in-flight requests with other search components on
+   * the page instead of fetching the same query twice.
+   */
+  dedupeRequests?: boolean;
+  cacheDuration?: number;
+  maxCacheSize?: number;
+  /** Approximate memory budget for cached results, in bytes. */
+  maxCacheBytes?: number;
+  /**
+   * Keep cached results in IndexedDB (or localStorage) and share them
+   * between tabs. Needs a namespace: `cacheNamespace` or the adapter's id.
+   */
+  persistCache?: boolean;
+  /** Storage namespace; defaults to `adapter.id`. */
+  cacheNamespace?: string;
+  /**
+   * Balanced mode: show cached rows immediately, then refresh them from
+   * the API in the background and update the list in place.
+   */
+  staleWhileRevalidate?: boolean;
+  /** How long (ms) an exact cache hit counts as fresh and skips a refresh. */
+  staleTime?: number;
+  /**
+   * Minimum similarity (0–1) for typo-tolerant matches, both in local
+   * results and when reusing cached ones. `1` disables fuzzy matching.
+   */
+  fuzzyThreshold?: number;
+  /** Receive search events (see `engine/telemetry` for built-in sinks). */
+  telemetry?: TelemetrySink[];
+  searchFields: SearchField<T>[];
+}
+
+interface SearchState<T> {
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  /** Cached results are on screen while a background refresh runs. */
+  isRevalidating: boolean;
+  error: string | null;
+  results: T[];
+  source: SearchSource | null;
+  pageInfo: PageInfo | null;
+  /** Epoch ms when a rate-limited search may be retried. */
+  retryAt: number | null;
+}
+
+const emptyState: SearchState<never> = {
+  isLoading: false,
+  isLoadingMore: false,
+  isRevalidating: false,
+  error: null,
+  results: [],
+  source: null,
+  pageInfo: null,
+  retryAt: null,
+};
+
+/** Result sets kept for local (offline) search. */
+const RECENT_SEARCHES_LIMIT = 20;
+
+const initialStats: SearchStats = {
+  apiCalls: 0,
+  cacheHits: 0,
+  freshHits: 0,
+  staleHits: 0,
+  backgroundUpdates: 0,
+  localSearches: 0,
+  rateLimited: 0,
+  retries: 0,
+  sharedRequests: 0,
+};
+
+const LOCAL_ONLY_MESSAGE = "Search service unavailable. Showing local results.";
+
+/** Whether a refresh returned the rows already on screen. */
+const sameRows = <T>(current: T[], next: T[]): boolean =>
+  current.length === next.length &&
+  current.every(
+    (row, index) =>
+      row === next[index] || JSON.stringify(row) === JSON.stringify(next[index])
+  );
+
+/**
+ * Headless search engine behind `AdvancedSearchComponent` and
+ * `SearchComponent`: debouncing, caching, rate limiting and strategy
+ * execution, with no markup. Renderers own dropdown/focus state.
+ */
+const useAdaptiveSearch = <T>({
+  adapter,
+  apiEndpoint = "https://jsonplaceholder.typicode.com/users",
+  debounceMs = 300,
+  minQueryLength = 2,
+  maxResults = 50,
+  defaultStrategy = "balanced",
+  strategyRegistry,
+  rateLimit = 60,
+  rateLimitWindow = 60000,
+  rateLimitBurst,
+  maxRetries = 2,
+  retryBaseDelay = 300,
+  failureThreshold = 5,
+  circuitCooldown = 30 * 1000,
+  dedupeRequests = true,
+  cacheDuration = 5 * 60 * 1000,
+  maxCacheSize = 50,
+  maxCacheBytes,
+  persistCache = false,
+  cacheNamespace,
+  staleWhileRevalidate = true,
+  staleTime = 30 * 1000,
+  fuzzyThreshold = DEFAULT_FUZZY_THRESHOLD,
+  telemetry,
+  searchFields,
+}: UseAdaptiveSearchOptions<T>) => {
+  const [searchMode, setSearchModeState] =
+    useState<SearchMode>(defaultStrategy);
+  const [query, setQueryState] = useState("");
+  const [state, setState] = useState<SearchState<T>>(emptyState);
+  const [stats, setStats] = useState<SearchStats>(initialStats);
+  const [autoDecision, setAutoDecision] = useState<AutoDecision | null>(null);
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const activeRequestKeyRef = useRef<string | null>(null);
+  // Paging gets its own controller so a scroll doesn't abort a background
+  // revalidation of the first page.
+  const pageAbortControllerRef = useRef<AbortController | null>(null);
+  const pageRequestKeyRef = useRef<string | null>(null);
+  // Signals for auto mode, smoothed so one outlier doesn't flip the mode.
+  const latencyRef = useRef<number | null>(null);
+  const typingIntervalRef = useRef<number | null>(null);
+  const lastKeystrokeRef = useRef<number | null>(null);
+  const [recentSearches] = useState(() =>
+    createLruCache<string, T[]>({ maxEntries: RECENT_SEARCHES_LIMIT })
+  );
+  const currentStrategyRef = useRef<SearchMode>(searchMode);
+  const latestQueryRef = useRef("");
+  // Only the newest performSearch run may settle `isLoading`.
+  const searchRunRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+  // Events feed the analytics summary and any sinks in `telemetry`.
+  const [eventLog] = useState(() => createMemorySink());
+  const telemetryRef = useRef(telemetry);
+  /** Last query that showed rows nobody has picked from yet. */
+  const pendingQueryRef = useRef<{ query: string; resultCount: number } | null>(
+    null
+  );
+
+  useEffect(() => {
+    currentStrategyRef.current = searchMode;
+  }, [searchMode]);
+
+  useEffect(() => {
+    telemetryRef.current = telemetry;
+  }, [telemetry]);
+
+  const emit = useCallback(
+    (event: SearchEventInput) =>
+      createTelemetry([eventLog, ...(telemetryRef.current ?? [])]).emit(event),
+    [eventLog]
+  );
+
+  const abortRequests = useCallback(() => {
+    abortControllerRef.current?.abort();
+    pageAbortControllerRef.current?.abort();
+  }, []);
+
+  useEffect(() => abortRequests, [abortRequests]);
+
+  const cache = useMemo(
+    () =>
+      createSearchCache<T>(cacheDuration, {
+        maxSize: maxCacheSize,
+        maxBytes: maxCacheBytes,
+        fuzzyThreshold,
+      }),
+    [cacheDuration, maxCacheSize, maxCacheBytes, fuzzyThreshold]
+  );
+
+  // Expired pages would otherwise linger until their key is read again.
+  useEffect(() => cache.schedulePurge(cacheDuration), [cache, cacheDuration]);
+
+  const rateLimiter = useMemo(
+    () =>
+      createRateLimiter(rateLimit, rateLimitWindow, { burst: rateLimitBurst }),
+    [rateLimit, rateLimitWindow, rateLimitBurst]
+  );
+
+  const circuitBreaker = useMemo(
+    () =>
+      createCircuitBreaker({
+        failureThreshold,
+        cooldownMs: circuitCooldown,
+      }),
+    [failureThreshold, circuitCooldown]
+  );
+
+  const [builtinRegistry] = useState(() =>
+    createStrategyRegistry(builtinStrategies<T>())
+  );
+  const registry = strategyRegistry ?? builtinRegistry;
+  const strategies = useSyncExternalStore(registry.subscribe, registry.list);
+
+  const executors = useMemo(
+    () =>
+      new Map(
+        strategies.map((definition) => [
+          definition.id,
+          definition.create({
+            cache,
+            rateLimiter,
+            staleWhileRevalidate,
+            staleTime,
+          }),
+        ])
+      ),
+    [strategies, cache, rateLimiter, staleWhileRevalidate, staleTime]
+  );
+
+  const queryFields = useMemo(
+    () => getQueryFieldNames(searchFields),
+    [searchFields]
+  );
+
+  const searchAdapter = useMemo(
+    () => adapter ?? createRestAdapter<T>({ endpoint: apiEndpoint }),
+    [adapter, apiEndpoint]
+  );
+
+  const persistNamespace = persistCache
+    ? (cacheNamespace ?? searchAdapter.id)
+    : undefined;
+
+  useEffect(() => {
+    if (!persistNamespace) return;
+    return attachPersistentStore(cache, {
+      namespace: persistNamespace,
+      ttl: cacheDuration,
+      maxEntries: maxCacheSize,
+    });
+  }, [cache, persistNamespace, cacheDuration, maxCacheSize]);
+
+  /**
+   * Fetches one page through the adapter. `maxResults` is the page size;
+   * unpaged responses are cut to it but still report the full match count.
+   * Every attempt spends a rate-limit token, and the server's rate-limit
+   * headers and throttling statuses feed back into the limiter. Transient
+   * failures are retried; the outcome feeds the circuit breaker.
+   */
+  const performApiSearch = useCallback(
+    async (
+      searchQuery: string,
+      page: number = 1,
+      cursor?: string
+    ): Promise<SearchPage<T>> => {
+      const requestKey = [
+        requestScope(searchAdapter, searchAdapter.id),
+        maxResults,
+        page,
+        cursor ?? "",
+        searchQuery,
+      ].join("|");
+
+      // Asking again for the request already running joins it instead of
+      // aborting and restarting it.
+      const controllerRef =
+        page > 1 ? pageAbortControllerRef : abortControllerRef;
+      const requestKeyRef = page > 1 ? pageRequestKeyRef : activeRequestKeyRef;
+      if (
+        requestKeyRef.current !== requestKey ||
+        !controllerRef.current ||
+        controllerRef.current.signal.aborted
+      ) {
+        controllerRef.current?.abort();
+        controllerRef.current = new AbortController();
+        requestKeyRef.current = requestKey;
+      }
+      const { signal } = controllerRef.current;
+      const { ast } = parseQuery(searchQuery, queryFields);
+
+      const fetchPage = (requestSignal: AbortSignal) => {
+        rateLimiter.record();
+        return searchAdapter.search({
+          query: searchQuery,
+          ast,
+          limit: maxResults,
+          page,
+          cursor,
+          signal: requestSignal,
+        });
+      };
+
+      const startedAt = performance.now();
+      let response: SearchResponse<T>;
+      try {
+        response = await withRetry(
+          () =>
+            dedupeRequests
+              ? sharedRequests.run(requestKey, fetchPage, {
+                  signal,
+                  onJoin: () =>
+                    setStats((prev) => ({
+                      ...prev,
+                      sharedRequests: prev.sharedRequests + 1,
+                    })),
+                })
+              : fetchPage(signal),
+          {
+            maxAttempts: maxRetries + 1,
+            baseDelayMs: retryBaseDelay,
+            signal,
+            canRetry: () => !rateLimiter.isLimited(),
+            onRetry: () =>
+              setStats((prev) => ({ ...prev, retries: prev.retries + 1 })),
+          }
+        );
+      } catch (error) {
+        if (error instanceof HttpError && isThrottleError(error)) {
+          rateLimiter.backoff(error.headers);
+        } else if (!signal.aborted) {
+          circuitBreaker.recordFailure();
+        }
+        throw error;
+      }
+      circuitBreaker.recordSuccess();
+      rateLimiter.observe(response.headers);
+      latencyRef.current = smooth(
+        latencyRef.current,
+        performance.now() - startedAt
+      );
+
+      // Server-filtered rows are kept even if our matcher disagrees.
+      const matching = rankResults(response.items, searchFields, ast, {
+        keepUnmatched: searchAdapter.serverFiltered,
+        fuzzyThreshold,
+      });
+
+      if (response.hasMore === undefined) {
+        return {
+          data: matching.slice(0, maxResults),
+          pageInfo: {
+            page: 1,
+            total: response.total ?? matching.length,
+            hasMore: false,
+          },
+        };
+      }
+
+      return {
+        data: matching,
+        pageInfo: {
+          page,
+          total: response.total,
+          nextCursor: response.nextCursor,
+          hasMore: response.hasMore,
+        },
+      };
+    },
+    [
+      searchAdapter,
+      rateLimiter,
+      circuitBreaker,
+      dedupeRequests,
+      maxResults,
+      maxRetries,
+      retryBaseDelay,
+      searchFields,
+      queryFields,
+      fuzzyThreshold,
+    ]
+  );
+
+  const refineResults = useCallback(
+    (searchQuery: string, items: T[]): T[] =>
+      rankResults(items, searchFields, searchQuery, { fuzzyThreshold }).slice(
+        0,
+        maxResults
+      ),
+    [maxResults, searchFields, fuzzyThreshold]
+  );
+
+  const performLocalSearch = useCallback(
+    (searchQuery: string): T[] => {
+      const resultsSet = new Set<T>();
+
+      for (const items of recentSearches.values()) {
+        items.forEach((item) => resultsSet.add(item));
+      }
+
+      return refineResults(searchQuery, Array.from(resultsSet));
+    },
+    [recentSearches, refineResults]
+  );
+
+  /** Local-only mode while the circuit is open: cache, then recent rows. */
+  const searchOffline = useCallback(
+    (searchQuery: string): SearchResult<T> => {
+      const cached = cache.getEntry(searchQuery);
+      if (cached) {
+        return {
+          data: cached.data,
+          source: "cache",
+          pageInfo: cached.pageInfo,
+        };
+      }
+      return {
+        data: performLocalSearch(searchQuery),
+        source: "local",
+        error: LOCAL_ONLY_MESSAGE,
+      };
+    },
+    [cache, performLocalSearch]
+  );
+
+  const updateStats = useCallback((source: SearchSource, stale = false) => {
+    setStats((prev) => {
+      switch (source) {
+        case "api":
+          return { ...prev, apiCalls: prev.apiCalls + 1 };
+        case "cache":
+          return stale
+            ? {
+                ...prev,
+                cacheHits: prev.cacheHits + 1,
+                staleHits: prev.staleHits + 1,
+              }
+            : {
+                ...prev,
+                cacheHits: prev.cacheHits + 1,
+                freshHits: prev.freshHits + 1,
+              };
+        case "local":
+          return { ...prev, localSearches: prev.localSearches + 1 };
+        case "rate_limited":
+          return { ...prev, rateLimited: prev.rateLimited + 1 };
+        default:
+          return prev;
+      }
+    });
+  }, []);
+
+  const rememberResults = useCallback(
+    (searchQuery: string, data: T[]) => {
+      if (data.length > 0) recentSearches.set(searchQuery, data);
+    },
+    [recentSearches]
+  );
+
+  const isCurrent = useCallback(
+    (searchQuery: string, mode: SearchMode) =>
+      currentStrategyRef.current === mode &&
+      latestQueryRef.current === searchQuery,
+    []
+  );
+
+  /**
+   * Swaps in the refreshed rows behind a stale result, if they differ.
+   * The list stays put when nothing changed.
+   */
+  const applyRevalidation = useCallback(
+    async (
+      searchQuery: string,
+      mode: SearchMode,
+      shown: T[],
+      revalidation: Promise<SearchResult<T> | null>
+    ): Promise<void> => {
+      const fresh = await revalidation;
+      if (!isCurrent(searchQuery, mode)) return;
+
+      if (!fresh || fresh.error || fresh.source !== "api") {
+        setState((prev) => ({ ...prev, isRevalidating: false }));
+        return;
+      }
+
+      const changed = !sameRows(shown, fresh.data);
+      // Unchanged rows keep any pages loaded since; new rows restart paging.
+      setState((prev) => ({
+        ...prev,
+        isRevalidating: false,
+        source: "api",
+        ...(changed && {
+          results: fresh.data,
+          pageInfo: fresh.pageInfo ?? null,
+        }),
+      }));
+      updateStats("api");
+      if (changed) {
+        setStats((prev) => ({
+          ...prev,
+          backgroundUpdates: prev.backgroundUpdates + 1,
+        }));
+        rememberResults(searchQuery, fresh.data);
+      }
+    },
+    [isCurrent, updateStats, rememberResults]
+  );
+
+  /** Picks the strategy for one search in auto mode. */
+  const decideAutoMode = useCallback((): AutoDecision => {
+    const { hits, misses } = cache.stats;
+    return chooseSearchMode({
+      latencyMs: latencyRef.current,
+      rateLimitRemaining: rateLimiter.remaining(),
+      rateLimit,
+      cacheHitRatio: hits + misses > 0 ? hits / (hits + misses) : null,
+      typingIntervalMs: typingIntervalRef.current,
+      connection: readConnectionHints(),
+    });
+  }, [cache, rateLimiter, rateLimit]);
+
+  /** Emits the events for results that just reached the screen. */
+  const reportResolved = useCallback(
+    (
+      searchQuery: string,
+      { data, source, stale, retryAt }: SearchResult<T>,
+      startedAt: number
+    ) => {
+      emit({
+        type: "source_resolved",
+        query: searchQuery,
+        source,
+        resultCount: data.length,
+        stale: !!stale,
+      });
+      emit({
+        type: "latency",
+        query: searchQuery,
+        durationMs: performance.now() - startedAt,
+        source,
+      });
+      if (source === "rate_limited" || retryAt) {
+        emit({
+          type: "rate_limited",
+          query: searchQuery,
+          retryAt: retryAt ?? null,
+        });
+      }
+      pendingQueryRef.current =
+        data.length > 0
+          ? { query: searchQuery, resultCount: data.length }
+          : null;
+    },
+    [emit]
+  );
+
+  const performSearch = useCallback(
+    async (searchQuery: string, currentMode: SearchMode): Promise<void> => {
+      const trimmedQuery = searchQuery.trim();
+      // A timer that fired after the query moved on (cleared, selected).
+      if (trimmedQuery !== latestQueryRef.current) return;
+
+      if (!trimmedQuery || trimmedQuery.length < minQueryLength) {
+        setState(emptyState);
+        return;
+      }
+
+      const run = ++searchRunRef.current;
+      setState((prev) => ({
+        ...prev,
+        error: null,
+        isLoading: true,
+        isRevalidating: false,
+      }));
+
+      let strategyMode: SearchMode;
+      if (currentMode === "auto") {
+        const decision = decideAutoMode();
+        setAutoDecision(decision);
+        strategyMode = decision.mode;
+      } else {
+        strategyMode = currentMode;
+      }
+      const startedAt = performance.now();
+      emit({
+        type: "query_issued",
+        query: trimmedQuery,
+        mode: currentMode,
+        strategy: strategyMode,
+      });
+
+      // A strategy unregistered while selected falls back to balanced.
+      const executor = executors.get(strategyMode) ?? executors.get("balanced");
+
+      try {
+        const result =
+          executor && circuitBreaker.canRequest()
+            ? await executor.execute(
+                trimmedQuery,
+                performApiSearch,
+                performLocalSearch,
+                refineResults
+              )
+            : searchOffline(trimmedQuery);
+        // A newer keystroke aborts the refresh; that's not an error.
+        const revalidation = result.revalidation?.catch(() => null);
+
+        if (!isCurrent(trimmedQuery, currentMode)) return;
+
+        setState((prev) => ({
+          ...prev,
+          error: result.error || null,
+          results: result.data,
+          source: result.source,
+          pageInfo: result.pageInfo ?? null,
+          retryAt: result.retryAt ?? null,
+          isRevalidating: !!revalidation,
+        }));
+        updateStats(result.source, result.stale);
+        rememberResults(trimmedQuery, result.data);
+        reportResolved(trimmedQuery, result, startedAt);
+
+        if (revalidation) {
+          applyRevalidation(
+            trimmedQuery,
+            currentMode,
+            result.data,
+            revalidation
+          );
+        }
+      } catch (error) {
+        if (error instanceof Error && error.name !== "AbortError") {
+          setState((prev) => ({
+            ...prev,
+            error: "An unexpected error occurred",
+          }));
+          emit({ type: "error", query: trimmedQuery, message: error.message });
+        }
+      } finally {
+        // Superseded runs clear it too, unless a newer run now owns it.
+        if (searchRunRef.current === run) {
+          setState((prev) => ({ ...prev, isLoading: false }));
+        }
+      }
+    },
+    [
+      minQueryLength,
+      decideAutoMode,
+      emit,
+      executors,
+      circuitBreaker,
+      searchOffline,
+      performApiSearch,
+      performLocalSearch,
+      refineResults,
+      isCurrent,
+      updateStats,
+      rememberResults,
+      reportResolved,
+      applyRevalidation,
+    ]
+  );
+
+  const debouncedSearch = useDebounce(
+    (nextQuery: string, mode: SearchMode) => performSearch(nextQuery, mode),
+    debounceMs
+  );
+
+  /**
+   * Updates the query and schedules a search through the active strategy.
+   * Pass `{ search: false }` to only reflect a value (e.g. a selected row).
+   */
+  const setQuery = useCallback(
+    (newQuery: string, options: { search?: boolean } = {}) => {
+      setQueryState(newQuery);
+      const trimmedQuery = newQuery.trim();
+      latestQueryRef.current = trimmedQuery;
+
+      if (options.search === false) {
+        debouncedSearch.cancel();
+        abortRequests();
+        setState((prev) => ({
+          ...prev,
+          isLoading: false,
+          isRevalidating: false,
+        }));
+        return;
+      }
+
+      if (!trimmedQuery) {
+        debouncedSearch.cancel();
+        abortRequests();
+        setState(emptyState);
+        return;
+      }
+
+      const now = Date.now();
+      const sinceLastKey = now - (lastKeystrokeRef.current ?? now);
+      // Gaps over two seconds are pauses, not typing speed.
+      if (sinceLastKey > 0 && sinceLastKey < 2000) {
+        typingIntervalRef.current = smooth(
+          typingIntervalRef.current,
+          sinceLastKey
+        );
+      }
+      lastKeystrokeRef.current = now;
+
+      // Manual Entry searches on submit() only; typing just drops whatever
+      // the last submit left pending or reported.
+      if (searchMode === "manual") {
+        debouncedSearch.cancel();
+        abortRequests();
+        setState((prev) => ({ ...prev, error: null, isLoading: false }));
+        return;
+      }
+
+      setState((prev) => ({
+        ...prev,
+        error: null,
+        isLoading: trimmedQuery.length >= minQueryLength,
+      }));
+      // The pending search owns `isLoading` from here, not the one in flight.
+      searchRunRef.current++;
+      debouncedSearch(newQuery, searchMode);
+    },
+    [searchMode, minQueryLength, debouncedSearch, abortRequests]
+  );
+
+  /**
+   * Forces an API round-trip for the current query, bypassing the active
+   * strategy. This is what Enter does in manual mode.
+   */
+  const submit = useCallback(async (): Promise<void> => {
+    const trimmedQuery = query.trim();
+    if (trimmedQuery.length < minQueryLength) return;
+
+    const startedAt = performance.now();
+    emit({
+      type: "query_issued",
+      query: trimmedQuery,
+      mode: searchMode,
+      strategy: searchMode,
+    });
+
+    if (rateLimiter.isLimited()) {
+      const retryAt = rateLimiter.nextAllowedAt();
+      setState((prev) => ({
+        ...prev,
+        error: RATE_LIMIT_MESSAGE,
+        source: "rate_limited",
+        retryAt,
+      }));
+      updateStats("rate_limited");
+      emit({ type: "rate_limited", query: trimmedQuery, retryAt });
+      return;
+    }
+
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    try {
+      const { data, pageInfo } = await performApiSearch(trimmedQuery);
+      cache.set(trimmedQuery, data, pageInfo);
+      if (latestQueryRef.current !== trimmedQuery) return;
+
+      setState((prev) => ({
+        ...prev,
+        results: data,
+        error: null,
+        source: "api",
+        pageInfo: pageInfo ?? null,
+        retryAt: null,
+      }));
+      updateStats("api");
+      rememberResults(trimmedQuery, data);
+      reportResolved(trimmedQuery, { data, source: "api" }, startedAt);
+    } catch (error) {
+      if (isThrottleError(error)) {
+        const retryAt = rateLimiter.nextAllowedAt();
+        setState((prev) => ({
+          ...prev,
+          error: RATE_LIMIT_MESSAGE,
+          source: "rate_limited",
+          retryAt,
+        }));
+        updateStats("rate_limited");
+        emit({ type: "rate_limited", query: trimmedQuery, retryAt });
+      } else if (error instanceof Error && error.name !== "AbortError") {
+        setState((prev) => ({
+          ...prev,
+          error: "Search failed. Please try again.",
+        }));
+        emit({ type: "error", query: trimmedQuery, message: error.message });
+      }
+    } finally {
+      setState((prev) => ({ ...prev, isLoading: false }));
+    }
+  }, [
+    query,
+    minQueryLength,
+    searchMode,
+    emit,
+    rateLimiter,
+    performApiSearch,
+    cache,
+    updateStats,
+    rememberResults,
+    reportResolved,
+  ]);
+
+  /**
+   * Appends the next server page for the current query. Pages are cached
+   * by query plus page index, so scrolling back through a query is free.
+   */
+  const loadMore = useCallback(async (): Promise<void> => {
+    const { pageInfo, isLoading } = state;
+    const trimmedQuery = latestQueryRef.current;
+    // Scroll events fire faster than state updates; guard with a ref.
+    if (!pageInfo?.hasMore || isLoading || loadingMoreRef.current) return;
+
+    const nextPage = pageInfo.page + 1;
+    const appendPage = (data: T[], nextInfo?: PageInfo) =>
+      setState((prev) => ({
+        ...prev,
+        results: [...prev.results, ...data],
+        pageInfo: nextInfo ?? { ...pageInfo, hasMore: false },
+      }));
+
+    const cached = cache.getEntry(trimmedQuery, nextPage);
+    if (cached) {
+      appendPage(cached.data, cached.pageInfo);
+      updateStats("cache");
+      return;
+    }
+
+    if (rateLimiter.isLimited()) {
+      const retryAt = rateLimiter.nextAllowedAt();
+      setState((prev) => ({ ...prev, error: RATE_LIMIT_MESSAGE, retryAt }));
+      emit({ type: "rate_limited", query: trimmedQuery, retryAt });
+      return;
+    }
+
+    loadingMoreRef.current = true;
+    setState((prev) => ({ ...prev, isLoadingMore: true }));
+    try {
+      const page = await performApiSearch(
+        trimmedQuery,
+        nextPage,
+        pageInfo.nextCursor ?? undefined
+      );
+      cache.set(trimmedQuery, page.data, page.pageInfo);
+      if (latestQueryRef.current !== trimmedQuery) return;
+
+      appendPage(page.data, page.pageInfo);
+      updateStats("api");
+    } catch (error) {
+      if (isThrottleError(error)) {
+        const retryAt = rateLimiter.nextAllowedAt();
+        setState((prev) => ({ ...prev, error: RATE_LIMIT_MESSAGE, retryAt }));
+        emit({ type: "rate_limited", query: trimmedQuery, retryAt });
+      } else if (error instanceof Error && error.name !== "AbortError") {
+        setState((prev) => ({
+          ...prev,
+          error: "Could not load more results.",
+        }));
+        emit({ type: "error", query: trimmedQuery, message: error.message });
+      }
+    } finally {
+      loadingMoreRef.current = false;
+      setState((prev) => ({ ...prev, isLoadingMore: false }));
+    }
+  }, [state, cache, rateLimiter, performApiSearch, updateStats, emit]);
+
+  /** Records that the user picked the row at 1-based `rank`. */
+  const trackSelection = useCallback(
+    (rank: number, key?: string | number) => {
+      emit({ type: "selection", query: latestQueryRef.current, rank, key });
+      pendingQueryRef.current = null;
+    },
+    [emit]
+  );
+
+  /**
+   * Records an abandoned query if results were showing and nothing was
+   * picked. Call when the results close without a selection.
+   */
+  const trackDismiss = useCallback(() => {
+    const pending = pendingQueryRef.current;
+    if (!pending) return;
+    pendingQueryRef.current = null;
+    emit({ type: "abandoned", ...pending });
+  }, [emit]);
+
+  // Leaving the page with results open counts as abandoning them.
+  useEffect(() => trackDismiss, [trackDismiss]);
+
+  const events = useSyncExternalStore(eventLog.subscribe, eventLog.events);
+  const analytics = useMemo(() => summarizeEvents(events), [events]);
+
+  const parsedQuery = useMemo(
+    () => parseQuery(query, queryFields),
+    [query, queryFields]
+  );
+
+  const clear = useCallback(() => {
+    trackDismiss();
+    setQueryState("");
+    latestQueryRef.current = "";
+    debouncedSearch.cancel();
+    abortRequests();
+    setState(emptyState);
+  }, [trackDismiss, debouncedSearch, abortRequests]);
+
+  const setSearchMode = useCallback(
+    (mode: SearchMode) => {
+      abortRequests();
+      setSearchModeState(mode);
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        isRevalidating: false,
+      }));
+    },
+    [abortRequests]
+  );
+
+  return {
+    query,
+    /** `query` split into terms, for chips and inline field errors. */
+    parsedQuery,
+    setQuery,
+    submit,
+    clear,
+    loadMore,
+    results: state.results,
+    isLoading: state.isLoading,
+    isLoadingMore: state.isLoadingMore,
+    isRevalidating: state.isRevalidating,
+    pageInfo: state.pageInfo,
+    error: state.error,
+    retryAt: state.retryAt,
+    source: state.source,
+    stats,
+    searchMode,
+    setSearchMode,
+    /** Registered strategies, in selector order (auto mode not included). */
+    strategies,
+    /** The strategy actually running: auto mode's current pick, if auto. */
+    activeMode:
+      searchMode === "auto" ? (autoDecision?.mode ?? "balanced") : searchMode,
+    autoDecision: searchMode === "auto" ? autoDecision : null,
+    analytics,
+    trackSelection,
+    trackDismiss,
+    /** Queries with cached rows, most recent first; feeds suggestions. */
+    cachedQueries: cache.queries,
+    cacheSize: cache.size,
+    cacheBytes: cache.bytes,
+    cacheStats: cache.stats,
+    rateLimitRemaining: rateLimiter.remaining(),
+    /** Epoch ms when local-only mode ends; null while the API is in use. */
+    localOnlyUntil: circuitBreaker.reopensAt(),
+  };
+};
+
+export type AdaptiveSearch<T> = ReturnType<typeof useAdaptiveSearch<T>>;
+
+export default useAdaptiveSearch;
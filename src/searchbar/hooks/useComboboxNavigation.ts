@@ -0,0 +1,123 @@
+import { useCallback, useId, useState, type RefObject } from "react";
+import type { VirtualListHandle } from "../../bank/features/virtual-list/VirtualList";
+
+interface UseComboboxNavigationOptions<T> {
+  items: T[];
+  isOpen: boolean;
+  /** Rows moved by PageUp / PageDown. */
+  pageSize?: number;
+  listRef?: RefObject<VirtualListHandle | null>;
+  onOpen?: () => void;
+  onClose?: () => void;
+  onSelect: (item: T) => void;
+}
+
+/**
+ * Active-descendant keyboard model for a search combobox (WAI-ARIA APG).
+ * Focus stays in the input; the highlighted option is tracked here and
+ * exposed through `aria-activedescendant`.
+ */
+const useComboboxNavigation = <T>({
+  items,
+  isOpen,
+  pageSize = 5,
+  listRef,
+  onOpen,
+  onClose,
+  onSelect,
+}: UseComboboxNavigationOptions<T>) => {
+  const listboxId = useId();
+  // Tied to the `items` it was chosen from, so new results reset it.
+  const [active, setActive] = useState({ items, index: -1 });
+  const activeIndex = active.items === items ? active.index : -1;
+
+  const getOptionId = useCallback(
+    (index: number) => `${listboxId}-option-${index}`,
+    [listboxId]
+  );
+
+  // Pointer hover passes `scroll: false`; the row is already on screen.
+  const setActiveIndex = useCallback(
+    (index: number, scroll: boolean = true) => {
+      setActive({ items, index });
+      if (scroll && index >= 0) listRef?.current?.scrollToIndex(index);
+    },
+    [items, listRef]
+  );
+
+  /** Returns true when the key was consumed by the combobox. */
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLElement>): boolean => {
+      const last = items.length - 1;
+      const move = (index: number) => {
+        e.preventDefault();
+        if (!isOpen) onOpen?.();
+        setActiveIndex(Math.max(0, Math.min(last, index)));
+        return true;
+      };
+
+      if (e.key === "Escape") {
+        if (!isOpen) return false;
+        e.preventDefault();
+        setActive({ items, index: -1 });
+        onClose?.();
+        return true;
+      }
+
+      if (items.length === 0) return false;
+
+      switch (e.key) {
+        case "ArrowDown":
+          return move(isOpen ? activeIndex + 1 : 0);
+        case "ArrowUp":
+          return move(
+            isOpen ? (activeIndex < 0 ? last : activeIndex - 1) : last
+          );
+        case "PageDown":
+          return isOpen ? move(activeIndex + pageSize) : false;
+        case "PageUp":
+          return isOpen ? move(activeIndex - pageSize) : false;
+        case "Home":
+          return isOpen ? move(0) : false;
+        case "End":
+          return isOpen ? move(last) : false;
+        case "Enter":
+          if (!isOpen || activeIndex < 0) return false;
+          e.preventDefault();
+          onSelect(items[activeIndex]);
+          return true;
+        default:
+          return false;
+      }
+    },
+    [
+      items,
+      isOpen,
+      activeIndex,
+      pageSize,
+      onOpen,
+      onClose,
+      onSelect,
+      setActiveIndex,
+    ]
+  );
+
+  return {
+    listboxId,
+    activeIndex,
+    setActiveIndex,
+    getOptionId,
+    handleKeyDown,
+    /** Spread onto the input. */
+    inputProps: {
+      role: "combobox",
+      "aria-expanded": isOpen,
+      "aria-controls": listboxId,
+      "aria-autocomplete": "list" as const,
+      "aria-activedescendant":
+        isOpen && activeIndex >= 0 ? getOptionId(activeIndex) : undefined,
+    },
+  };
+};
+
+export default useComboboxNavigation;
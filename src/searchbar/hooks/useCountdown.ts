@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+
+/** Whole seconds left until `until` (epoch ms), ticking while positive. */
+function useCountdown(until: number | null): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (until === null) return;
+
+    const tick = () => setNow(Date.now());
+    // Resync right away; `now` may date from long before `until` was set.
+    const first = setTimeout(tick);
+    const timer = setInterval(() => {
+      tick();
+      if (Date.now() >= until) clearInterval(timer);
+    }, 250);
+
+    return () => {
+      clearTimeout(first);
+      clearInterval(timer);
+    };
+  }, [until]);
+
+  return until === null ? 0 : Math.max(0, Math.ceil((until - now) / 1000));
+}
+
+export default useCountdown;
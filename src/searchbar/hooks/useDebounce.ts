@@ -0,0 +1,38 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { useEffect, useMemo, useRef } from "react";
+
+/** A debounced call, plus `cancel` to drop the pending one. */
+export type Debounced<T extends (...args: any[]) => any> = ((
+  ...args: Parameters<T>
+) => void) & { cancel: () => void };
+
+function useDebounce<T extends (...args: any[]) => any>(
+  callback: T,
+  delay: number
+): Debounced<T> {
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current);
+      }
+    };
+  }, []);
+
+  return useMemo(() => {
+    const cancel = () => {
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current);
+        timeoutRef.current = null;
+      }
+    };
+    const debounced = (...args: Parameters<T>) => {
+      cancel();
+      timeoutRef.current = setTimeout(() => callback(...args), delay);
+    };
+    return Object.assign(debounced, { cancel });
+  }, [callback, delay]);
+}
+
+export default useDebounce;
@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  findCompletion,
+  mergeSuggestions,
+  type QuerySuggestion,
+} from "../engine/suggestions";
+import type { SuggestionAdapter } from "../adapters/suggestionAdapter";
+
+interface UseQuerySuggestionsOptions {
+  query: string;
+  /** Recent queries from the user's history, most recent first. Memoize. */
+  historyQueries?: string[];
+  /** Queries with cached results, most recent first. */
+  cachedQueries?: () => string[];
+  /** Optional server-side completions. */
+  adapter?: SuggestionAdapter;
+  limit?: number;
+  /** Wait (ms) after the last keystroke before asking the server. */
+  debounceMs?: number;
+}
+
+const noQueries: string[] = [];
+
+const toSuggestions = (
+  texts: string[],
+  source: QuerySuggestion["source"]
+): QuerySuggestion[] => texts.map((text) => ({ text, source }));
+
+/**
+ * Query completions from history, cached queries and an optional server
+ * endpoint. The top completion is meant for ghost text; `others` for a
+ * suggestions group above the results.
+ */
+const useQuerySuggestions = ({
+  query,
+  historyQueries = noQueries,
+  cachedQueries,
+  adapter,
+  limit = 5,
+  debounceMs = 150,
+}: UseQuerySuggestionsOptions) => {
+  const trimmedQuery = query.trim();
+  const [server, setServer] = useState<{ query: string; texts: string[] }>({
+    query: "",
+    texts: [],
+  });
+
+  useEffect(() => {
+    if (!adapter || !trimmedQuery) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      adapter
+        .suggest(trimmedQuery, controller.signal)
+        .then((texts) => setServer({ query: trimmedQuery, texts }))
+        .catch(() => {
+          // Suggestions are optional; local ones still show.
+        });
+    }, debounceMs);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [adapter, trimmedQuery, debounceMs]);
+
+  // Server results for an older query would suggest the wrong things.
+  const serverTexts = server.query === trimmedQuery ? server.texts : null;
+
+  const suggestions = useMemo(
+    () =>
+      mergeSuggestions(
+        trimmedQuery,
+        [
+          toSuggestions(historyQueries, "history"),
+          toSuggestions(cachedQueries?.() ?? [], "cache"),
+          toSuggestions(serverTexts ?? [], "server"),
+        ],
+        limit
+      ),
+    [trimmedQuery, historyQueries, cachedQueries, serverTexts, limit]
+  );
+
+  // Ghost text has to line up with what's typed, so match the raw value.
+  const completion = findCompletion(query, suggestions);
+  const others = useMemo(
+    () => suggestions.filter((suggestion) => suggestion !== completion),
+    [suggestions, completion]
+  );
+
+  /**
+   * Tab, or ArrowRight with the caret at the end, accepts the completion.
+   * Returns true when the key was consumed.
+   */
+  const handleAcceptKey = useCallback(
+    (
+      e: React.KeyboardEvent<HTMLInputElement>,
+      onAccept: (text: string) => void
+    ): boolean => {
+      if (!completion) return false;
+      const { selectionStart, value } = e.currentTarget;
+      const accepts =
+        (e.key === "Tab" && !e.shiftKey) ||
+        (e.key === "ArrowRight" && selectionStart === value.length);
+      if (!accepts) return false;
+      e.preventDefault();
+      onAccept(completion.text);
+      return true;
+    },
+    [completion]
+  );
+
+  return { completion, others, handleAcceptKey };
+};
+
+export default useQuerySuggestions;
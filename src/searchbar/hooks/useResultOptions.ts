@@ -0,0 +1,43 @@
+import { useMemo, type RefObject } from "react";
+import type { VirtualListHandle } from "../../bank/features/virtual-list/VirtualList";
+import type { QuerySuggestion } from "../engine/suggestions";
+import type { ResultOption } from "../types";
+
+/**
+ * Combines suggestions and entity results into one option list for the
+ * combobox, suggestions first. The returned ref scrolls the virtualized
+ * results by option index, skipping the suggestions.
+ */
+const useResultOptions = <T>(
+  suggestions: QuerySuggestion[],
+  results: T[],
+  listRef: RefObject<VirtualListHandle | null>
+) => {
+  const options = useMemo<ResultOption<T>[]>(
+    () => [
+      ...suggestions.map((suggestion) => ({
+        kind: "suggestion" as const,
+        suggestion,
+      })),
+      ...results.map((item) => ({ kind: "result" as const, item })),
+    ],
+    [suggestions, results]
+  );
+
+  const optionsListRef = useMemo<RefObject<VirtualListHandle>>(
+    () => ({
+      current: {
+        scrollToIndex: (index) => {
+          if (index >= suggestions.length) {
+            listRef.current?.scrollToIndex(index - suggestions.length);
+          }
+        },
+      },
+    }),
+    [suggestions.length, listRef]
+  );
+
+  return { options, optionsListRef };
+};
+
+export default useResultOptions;
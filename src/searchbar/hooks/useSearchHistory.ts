@@ -0,0 +1,51 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { createSearchHistory, type HistoryItem } from "../engine/searchHistory";
+
+const noItems: HistoryItem<never>[] = [];
+const subscribeNone = () => () => {};
+
+/**
+ * Persisted recent searches and favorites for one user. Pass no
+ * `storageKey` to turn history off; `items` is then always empty.
+ */
+const useSearchHistory = <T>(storageKey?: string, maxRecent?: number) => {
+  const history = useMemo(
+    () =>
+      storageKey ? createSearchHistory<T>({ storageKey, maxRecent }) : null,
+    [storageKey, maxRecent]
+  );
+
+  const items: HistoryItem<T>[] = useSyncExternalStore(
+    history?.subscribe ?? subscribeNone,
+    history?.items ?? (() => noItems)
+  );
+
+  /**
+   * Delete removes and Alt+P pins the highlighted item, on top of the
+   * combobox keys. Returns true when the key was consumed.
+   */
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLElement>, activeIndex: number): boolean => {
+      const item = items[activeIndex];
+      if (!history || !item) return false;
+
+      if (e.key === "Delete") {
+        e.preventDefault();
+        history.remove(item.id);
+        return true;
+      }
+      // `code`, not `key`: Alt+P types "π" on macOS.
+      if (e.altKey && e.code === "KeyP") {
+        e.preventDefault();
+        history.togglePin(item.id);
+        return true;
+      }
+      return false;
+    },
+    [history, items]
+  );
+
+  return { history, items, handleKeyDown };
+};
+
+export default useSearchHistory;
@@ -0,0 +1,75 @@
+import { useCallback, useMemo } from "react";
+import type { KeyAccessor } from "../engine/fields";
+
+interface UseSelectionOptions<T> {
+  /** Off means single-select: the helpers below become no-ops. */
+  multiple: boolean;
+  /** Controlled value; update it from `onSelectionChange`. */
+  selected?: T[];
+  onSelectionChange?: (items: T[]) => void;
+  getKey: KeyAccessor<T>;
+}
+
+const noItems: never[] = [];
+
+/**
+ * Multi-select state for the search components. The selection lives with
+ * the caller; this derives lookups from it and reports every change.
+ */
+const useSelection = <T>({
+  multiple,
+  selected = noItems,
+  onSelectionChange,
+  getKey,
+}: UseSelectionOptions<T>) => {
+  const items: T[] = multiple ? selected : noItems;
+  const selectedKeys = useMemo(
+    () => new Set(items.map(getKey)),
+    [items, getKey]
+  );
+
+  const add = useCallback(
+    (item: T) => {
+      if (selectedKeys.has(getKey(item))) return;
+      onSelectionChange?.([...items, item]);
+    },
+    [items, selectedKeys, getKey, onSelectionChange]
+  );
+
+  const remove = useCallback(
+    (item: T) => {
+      const key = getKey(item);
+      onSelectionChange?.(items.filter((other) => getKey(other) !== key));
+    },
+    [items, getKey, onSelectionChange]
+  );
+
+  /** Drops already-picked rows, so they aren't offered twice. */
+  const exclude = useCallback(
+    (results: T[]) =>
+      selectedKeys.size > 0
+        ? results.filter((item) => !selectedKeys.has(getKey(item)))
+        : results,
+    [selectedKeys, getKey]
+  );
+
+  /**
+   * Backspace in an empty input removes the last chip. Returns true when
+   * the key was consumed.
+   */
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLInputElement>): boolean => {
+      if (e.key !== "Backspace" || e.currentTarget.value) return false;
+      const last = items.at(-1);
+      if (last === undefined) return false;
+      e.preventDefault();
+      remove(last);
+      return true;
+    },
+    [items, remove]
+  );
+
+  return { items, add, remove, exclude, handleKeyDown };
+};
+
+export default useSelection;
@@ -0,0 +1,42 @@
+import type React from "react";
+import type { KeyAccessor, SearchField } from "./engine/fields";
+import type { QuerySuggestion } from "./engine/suggestions";
+
+export interface ResultRenderContext {
+  /** The query the results were matched against, for highlighting. */
+  query: string;
+  /** The row is cached and a background refresh is still running. */
+  isUpdating?: boolean;
+}
+
+/**
+ * Entity wiring shared by the search renderers. Everything the UI needs to
+ * know about a result type `T` goes through these accessors.
+ */
+export interface SearchEntityProps<T> {
+  /** Stable identity for a result row. */
+  getKey: KeyAccessor<T>;
+  /**
+   * Fields to match, as property paths (`"company.name"`) or functions.
+   * Wrap as `{ field, weight }` to change a field's share of the ranking.
+   */
+  searchFields: SearchField<T>[];
+  /** Text written into the input on select. Defaults to the first field. */
+  getLabel?: (item: T) => string;
+  /** Row body. Defaults to one line per search field. */
+  renderResult?: (item: T, context: ResultRenderContext) => React.ReactNode;
+  onSelect?: (item: T) => void;
+  /**
+   * Pick several entities instead of one. Picks become chips in the input
+   * and drop out of later results.
+   */
+  multiple?: boolean;
+  /** The picked entities in `multiple` mode. Controlled. */
+  selected?: T[];
+  onSelectionChange?: (items: T[]) => void;
+}
+
+/** One option in a results listbox: a query suggestion or an entity. */
+export type ResultOption<T> =
+  | { kind: "suggestion"; suggestion: QuerySuggestion }
+  | { kind: "result"; item: T };